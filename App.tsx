@@ -1,7 +1,7 @@
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { Chat, Message, AppSettings, ModelProvider, AppTheme, TagFolder } from './types';
-import { INITIAL_CHATS, IMPORT_CATALOG, MODEL_OPTIONS } from './constants';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Chat, Message, AppSettings, AppTheme, TagFolder, ComparisonEntry, PendingForward } from './types';
+import { INITIAL_CHATS, IMPORT_CATALOG } from './constants';
 import ChatList from './components/ChatList';
 import ChatWindow from './components/ChatWindow';
 import SettingsView from './components/SettingsView';
@@ -10,10 +10,34 @@ import CreateAssistantModal from './components/CreateAssistantModal';
 import CreateGroupModal from './components/CreateGroupModal';
 import CreateTagModal from './components/CreateTagModal';
 import EditTagModal from './components/EditTagModal';
-import { getAIResponse } from './services/aiService';
+import SearchResults from './components/SearchResults';
+import { getAIResponse, streamAIResponse, planContext, summarizeConversation, summarizeThread, getAssistantRoutes, runWithFallback } from './services/aiService';
+import { buildSystemPrompt } from './services/arenaService';
+import { getProvider, getProviderModels, resolveApiKey, syncCustomEndpoints, ProviderError } from './services/providers';
+import { loadChats, saveChatChanges } from './services/storageService';
+import { budgetWarning, getUsageLedger, initUsageLedger, monthSpend, recordUsage, usageCost, withCosts } from './services/usageService';
+import { getInheritedContext } from './services/threadService';
+import { updateSearchIndex } from './services/searchService';
+import { getEmbeddingProvider } from './services/embeddingService';
 
 const generateUniqueId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
+// Базовая очистка от случайных префиксов с именем ассистента в начале ответа (на всякий случай)
+const stripSpeakerPrefixes = (text: string, name: string) => {
+  const prefixesToStrip = [
+    `[${name}]:`, 
+    `${name}:`,
+    `--- SOURCE: ${name.toUpperCase()} ---`
+  ];
+  let cleanedText = text.trim();
+  for (const prefix of prefixesToStrip) {
+    if (cleanedText.startsWith(prefix)) {
+      cleanedText = cleanedText.substring(prefix.length).trim();
+    }
+  }
+  return cleanedText;
+};
+
 const DEFAULT_GLOBAL_PROMPT = `[GROUP CHAT PROTOCOL]
 You are part of a multi-turn dialogue. 
 - You will see messages starting with "--- SOURCE: NAME ---". 
@@ -28,23 +52,36 @@ interface NavTag extends TagFolder {
 }
 
 const App: React.FC = () => {
-  const [chats, setChats] = useState<Chat[]>(() => {
-    const saved = localStorage.getItem('chat_app_chats');
-    if (!saved) return INITIAL_CHATS;
-    const parsed = JSON.parse(saved) as Chat[];
-    return Array.from(new Map(parsed.map(item => [item.id, item])).values());
-  });
+  const [chats, setChats] = useState<Chat[]>([]);
+  const [isStorageReady, setIsStorageReady] = useState(false);
+  // Последнее сохранённое состояние — в базу пишется только разница с ним
+  const persistedChatsRef = useRef<Chat[]>([]);
+  // Записи идут цепочкой: разница считается от снимка, который точно дошёл до базы
+  const persistQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const [persistError, setPersistError] = useState<string | null>(null);
 
   const [settings, setSettings] = useState<AppSettings>(() => {
     const saved = localStorage.getItem('chat_app_settings');
     if (saved) {
       const parsed = JSON.parse(saved);
       if (!parsed.globalSystemPrompt) parsed.globalSystemPrompt = DEFAULT_GLOBAL_PROMPT;
+      // Миграция старых полей openaiKey/deepseekKey в apiKeys
+      if (!parsed.apiKeys) {
+        parsed.apiKeys = { openai: parsed.openaiKey || '', deepseek: parsed.deepseekKey || '' };
+        delete parsed.openaiKey;
+        delete parsed.deepseekKey;
+      }
+      if (!parsed.customEndpoints) parsed.customEndpoints = [];
+      if (!parsed.modelPrices) parsed.modelPrices = {};
+      // Реестр провайдеров должен знать о пользовательских эндпоинтах до первого рендера;
+      // дальше его обновляет SettingsView вместе с настройками
+      syncCustomEndpoints(parsed.customEndpoints);
       return parsed;
     }
     return {
-      openaiKey: '',
-      deepseekKey: '',
+      apiKeys: {},
+      customEndpoints: [],
+      modelPrices: {},
       defaultProvider: 'gemini',
       activeTab: 'chats',
       theme: 'dark',
@@ -61,7 +98,10 @@ const App: React.FC = () => {
   const [openInProfile, setOpenInProfile] = useState(false);
   const [activeTagId, setActiveTagId] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState('');
-  const [pendingForward, setPendingForward] = useState<{ text: string, fromName: string } | null>(null);
+  const [pendingForward, setPendingForward] = useState<PendingForward | null>(null);
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  // Версия поискового индекса: по ней SearchResults понимает, что выдачу пора пересчитать
+  const [searchIndexVersion, setSearchIndexVersion] = useState(0);
   const [pendingBranch, setPendingBranch] = useState<{ parentId: string, rootMsg: Message } | null>(null);
   const [draftSubChat, setDraftSubChat] = useState<Chat | null>(null);
   const [isCreatingChat, setIsCreatingChat] = useState(false);
@@ -69,6 +109,8 @@ const App: React.FC = () => {
   const [isCreatingTag, setIsCreatingTag] = useState(false);
   const [isEditingTag, setIsEditingTag] = useState<TagFolder | null>(null);
   const [showPlusMenu, setShowPlusMenu] = useState(false);
+  const [streamingMessage, setStreamingMessage] = useState<{ chatId: string, message: Message } | null>(null);
+  const abortControllersRef = useRef<Map<string, AbortController>>(new Map());
 
   const activeChat = useMemo(() => {
     if (draftSubChat && draftSubChat.id === activeChatId) return draftSubChat;
@@ -94,13 +136,39 @@ const App: React.FC = () => {
     applyTheme(settings.theme);
   }, [settings.theme]);
 
+  useEffect(() => {
+    let cancelled = false;
+    loadChats()
+      .catch(e => { console.error("Failed to load chats:", e); return null; })
+      .then(saved => {
+        if (cancelled) return;
+        persistedChatsRef.current = saved || [];
+        setChats(saved || INITIAL_CHATS);
+        setIsStorageReady(true);
+        initUsageLedger(saved || []).catch(e => console.error("Failed to load usage ledger:", e));
+      });
+    return () => { cancelled = true; };
+  }, []);
+
   useEffect(() => { 
-    const uniqueChats = Array.from(new Map(chats.map(item => [item.id, item])).values());
-    localStorage.setItem('chat_app_chats', JSON.stringify(uniqueChats)); 
-  }, [chats]);
+    if (!isStorageReady) return;
+    const next = chats;
+    // Снимок сдвигается только после успешной записи — иначе неудавшаяся разница войдёт в следующую
+    persistQueueRef.current = persistQueueRef.current
+      .then(() => saveChatChanges(persistedChatsRef.current, next))
+      .then(() => { persistedChatsRef.current = next; setPersistError(null); })
+      .catch(e => { console.error("Failed to persist chats:", e); setPersistError(e?.message || String(e)); });
+  }, [chats, isStorageReady]);
   
   useEffect(() => { localStorage.setItem('chat_app_settings', JSON.stringify(settings)); }, [settings]);
 
+  // Индекс обновляется при любом изменении чатов, даже когда поиск закрыт, и никогда во время рендера
+  useEffect(() => {
+    if (!isStorageReady) return;
+    updateSearchIndex(chats);
+    setSearchIndexVersion(v => v + 1);
+  }, [chats, isStorageReady]);
+
   const availableDimensions = useMemo(() => {
     const nonArchivedChats = chats.filter(c => !c.tags.includes('#archived'));
     const archivedChatsCount = chats.filter(c => c.tags.includes('#archived')).length;
@@ -149,21 +217,21 @@ const App: React.FC = () => {
 
     if (!searchQuery.trim()) return baseChats;
 
+    // Совпадения внутри переписки показывает SearchResults по индексу, здесь только сами чаты
     const query = searchQuery.toLowerCase();
-    return baseChats.filter(chat => {
-      const nameMatch = chat.name.toLowerCase().includes(query);
-      const lastMessageMatch = chat.lastMessage?.toLowerCase().includes(query);
-      const historyMatch = chat.messages.some(m => m.text.toLowerCase().includes(query));
-      return nameMatch || lastMessageMatch || historyMatch;
-    });
+    return baseChats.filter(chat => chat.name.toLowerCase().includes(query) || chat.lastMessage?.toLowerCase().includes(query));
   }, [chats, activeTagId, activeTag, searchQuery]);
 
+  const searchFolders = useMemo(() => availableDimensions.filter(t => t.id !== 'all' && !t.isSystem).map(t => t.name), [availableDimensions]);
+
   const currentLevelChats = useMemo(() => currentParentId ? chats.filter(c => c.parentId === currentParentId && !c.tags.includes('#archived')) : [], [chats, currentParentId]);
 
-  const triggerAIResponseForChat = async (chatId: string, currentMessages: Message[], specificAuthorId?: string) => {
+  // regenerateTarget — AI-сообщение, к которому добавляется новый вариант ответа; currentMessages — история до него.
+  // Возвращает итоговую историю, чтобы следующий ответ в очереди её видел
+  const triggerAIResponseForChat = async (chatId: string, currentMessages: Message[], specificAuthorId?: string, regenerateTarget?: Message): Promise<Message[]> => {
     const isDraft = draftSubChat && draftSubChat.id === chatId;
     const chatBase = isDraft ? draftSubChat : chats.find(c => c.id === chatId);
-    if (!chatBase) return;
+    if (!chatBase) return currentMessages;
 
     let targetAssistant: Chat | undefined;
     
@@ -175,58 +243,111 @@ const App: React.FC = () => {
       targetAssistant = chats.find(c => c.id === chatBase.participantIds![0]);
     }
 
-    if (!targetAssistant) return;
+    if (!targetAssistant) return currentMessages;
 
-    let apiKey = '';
-    if (targetAssistant.provider === 'openai') {
-      apiKey = settings.openaiKey;
-    } else if (targetAssistant.provider === 'deepseek') {
-      apiKey = settings.deepseekKey;
-    }
+    // При регенерации исходное сообщение остаётся в чате, если новый ответ не получен
+    const baseMessages = regenerateTarget ? [...currentMessages, regenerateTarget] : currentMessages;
+
+    const routes = getAssistantRoutes(targetAssistant);
     
-    // ПРОЗРАЧНАЯ СКЛЕЙКА: Промпт агента + Глобальная инструкция
-    const finalSystemPrompt = `${targetAssistant.systemPrompt}\n\n${settings.globalSystemPrompt}`;
+    // ПРОЗРАЧНАЯ СКЛЕЙКА: Промпт агента + Тема и роль в Арене + Глобальная инструкция
+    const finalSystemPrompt = buildSystemPrompt(chatBase, targetAssistant, settings.globalSystemPrompt);
 
-    if (targetAssistant.provider !== 'gemini' && !apiKey) {
+    // Без ключа ни для основной, ни для запасных моделей запрос даже не отправляем
+    if (routes.every(r => getProvider(r.provider)?.auth && !resolveApiKey(r.provider, settings.apiKeys))) {
       const systemMsg: Message = {
         id: `sys-${Date.now()}`,
         text: `⚠️ Error: No API key for ${targetAssistant.provider.toUpperCase()}.`,
         sender: 'system',
+        authorId: targetAssistant.id,
         timestamp: Date.now(),
-        isError: true
+        isError: true,
+        errorKind: 'auth'
       };
-      const finalMessages = [...currentMessages, systemMsg];
+      const finalMessages = [...baseMessages, systemMsg];
       setChats(prev => prev.map(c => c.id === chatId ? { ...c, messages: finalMessages, lastMessage: systemMsg.text, lastTimestamp: Date.now() } : c));
-      return;
+      return finalMessages;
     }
     
+    const stripPrefixes = (text: string) => stripSpeakerPrefixes(text, targetAssistant!.name);
+
+    const streamId = regenerateTarget?.id ?? `ai-${Date.now()}`;
+    const streamBase: Message = {
+      id: streamId,
+      text: '',
+      sender: 'ai',
+      authorId: targetAssistant.id,
+      authorName: targetAssistant.name,
+      timestamp: Date.now()
+    };
+
+    const controller = new AbortController();
+    abortControllersRef.current.set(chatId, controller);
+
     try {
-      let aiResponseText = await getAIResponse(targetAssistant.provider, targetAssistant.modelName, finalSystemPrompt, currentMessages, apiKey, targetAssistant.temperature ?? 0.7);
-      
-      let cleanedText = aiResponseText.trim();
-      
-      // Базовая очистка от случайных префиксов в начале (на всякий случай)
-      const prefixesToStrip = [
-        `[${targetAssistant.name}]:`, 
-        `${targetAssistant.name}:`,
-        `--- SOURCE: ${targetAssistant.name.toUpperCase()} ---`
-      ];
-      
-      for (const prefix of prefixesToStrip) {
-        if (cleanedText.startsWith(prefix)) {
-          cleanedText = cleanedText.substring(prefix.length).trim();
+      // РЕЖИМ ПАМЯТИ: выпавшие из окна сообщения сворачиваются в сводку, модели уходят сводка + свежий хвост
+      let contextHistory = currentMessages;
+      let summary: string | undefined;
+      if (chatBase.memoryMode && !isDraft) {
+        const markerIdx = chatBase.summarizedUntilId ? currentMessages.findIndex(m => m.id === chatBase.summarizedUntilId) : -1;
+        // Маркер пропал (сообщение удалено или история переписана) — старая сводка истории больше не соответствует
+        const isStale = !!chatBase.summarizedUntilId && markerIdx === -1;
+        summary = isStale ? undefined : chatBase.summary;
+        const unsummarized = currentMessages.slice(markerIdx + 1);
+        contextHistory = unsummarized;
+
+        const plan = planContext(targetAssistant.provider, targetAssistant.modelName, finalSystemPrompt, unsummarized, summary);
+        const dropped = unsummarized.filter(m => m.sender !== 'system').slice(0, plan.totalCount - plan.messages.length);
+        if (dropped.length > 0) {
+          try {
+            const { text: newSummary, usage } = await summarizeConversation(summary || '', dropped, settings.apiKeys, targetAssistant, controller.signal);
+            recordUsage(usage, { kind: 'summary', chatId, assistantId: targetAssistant.id, assistantName: targetAssistant.name });
+            const summarizedUntilId = dropped[dropped.length - 1].id;
+            summary = newSummary;
+            contextHistory = unsummarized.slice(unsummarized.findIndex(m => m.id === summarizedUntilId) + 1);
+            setChats(prev => prev.map(c => c.id === chatId ? { ...c, summary: newSummary, summarizedUntilId } : c));
+          } catch (e) {
+            if (controller.signal.aborted) return baseMessages;
+            // Без новой сводки история просто обрежется по окну
+            console.error('Summarization failed', e);
+          }
         }
       }
 
-      const aiMsg: Message = { 
-        id: `ai-${Date.now()}`, 
-        text: cleanedText, 
-        sender: 'ai', 
-        authorId: targetAssistant.id,
-        authorName: targetAssistant.name,
-        timestamp: Date.now() 
-      };
-      const finalMessages = [...currentMessages, aiMsg];
+      // Ветка видит историю родителя перед своей; при нехватке окна она отрезается первой
+      const inherited = getInheritedContext(chatBase, chats);
+
+      // Если основная модель упала посреди потока, запасная начинает текст заново
+      const { result: aiResponse, isFallback } = await runWithFallback(routes, settings.apiKeys, (route, apiKey) => streamAIResponse(
+        route.provider, route.modelName, finalSystemPrompt, [...inherited, ...contextHistory], apiKey, targetAssistant!.temperature ?? 0.7,
+        (partial) => setStreamingMessage({ chatId, message: { ...streamBase, text: stripPrefixes(partial) } }),
+        controller.signal,
+        summary
+      ), controller.signal);
+
+      // В журнал до проверок ниже: запрос оплачен, даже если ответ потом не сохранится
+      const spentBefore = monthSpend(withCosts(getUsageLedger(), settings.modelPrices));
+      recordUsage(aiResponse.usage, { kind: 'reply', chatId, assistantId: targetAssistant.id, assistantName: targetAssistant.name });
+      
+      const cleanedText = stripPrefixes(aiResponse.text);
+      const wasStopped = controller.signal.aborted;
+      // Остановлено до первого токена — сохранять нечего
+      if (wasStopped && !cleanedText) return baseMessages;
+
+      let aiMsg: Message = { ...streamBase, text: cleanedText, timestamp: Date.now(), usage: aiResponse.usage, ...(isFallback ? { isFallback: true } : {}), ...(wasStopped ? { isInterrupted: true } : {}) };
+      if (regenerateTarget) {
+        const { id, variants, activeVariant, ...previous } = regenerateTarget;
+        const { id: _id, ...latest } = aiMsg;
+        const allVariants = [...(variants && variants.length > 0 ? variants : [previous]), latest];
+        aiMsg = { ...aiMsg, variants: allVariants, activeVariant: allVariants.length - 1 };
+      }
+      // Модель не увидела вложения — предупреждаем перед её ответом, чтобы было понятно, на что она отвечала
+      const warningMsgs: Message[] = aiResponse.warning ? [{ id: `sys-attach-${Date.now()}`, text: aiResponse.warning, sender: 'system', timestamp: Date.now() }] : [];
+      const finalMessages = [...currentMessages, ...warningMsgs, aiMsg];
+
+      // Предупреждение о месячном бюджете — один раз при пересечении порога
+      const warning = budgetWarning(spentBefore, spentBefore + (usageCost(aiResponse.usage, settings.modelPrices) || 0), settings.monthlyBudget);
+      if (warning) finalMessages.push({ id: `sys-budget-${Date.now()}`, text: warning, sender: 'system', timestamp: Date.now() });
 
       if (isDraft) {
         const finalizedChat = { ...chatBase, messages: finalMessages, lastMessage: cleanedText, lastTimestamp: Date.now() };
@@ -237,19 +358,73 @@ const App: React.FC = () => {
       } else {
         setChats(prev => prev.map(c => c.id === chatId ? { ...c, messages: finalMessages, lastMessage: cleanedText, lastTimestamp: Date.now() } : c));
       }
+      return finalMessages;
     } catch (e: any) { 
+      // authorId — кому повторить запрос по кнопке Retry
       const errorMsg: Message = {
         id: `err-${Date.now()}`,
         text: `${e.message}`,
         sender: 'system',
+        authorId: targetAssistant.id,
         timestamp: Date.now(),
-        isError: true
+        isError: true,
+        errorKind: e instanceof ProviderError ? e.kind : 'unknown'
       };
-      const finalMessages = [...currentMessages, errorMsg];
+      const finalMessages = [...baseMessages, errorMsg];
       setChats(prev => prev.map(c => c.id === chatId ? { ...c, messages: finalMessages, lastMessage: errorMsg.text, lastTimestamp: Date.now() } : c));
+      return finalMessages;
+    } finally {
+      if (abortControllersRef.current.get(chatId) === controller) abortControllersRef.current.delete(chatId);
+      setStreamingMessage(prev => prev?.chatId === chatId ? null : prev);
     }
   };
 
+  // РЕЖИМ СРАВНЕНИЯ: один вопрос параллельно нескольким ассистентам. Пока победитель не выбран,
+  // результат хранится системным сообщением, чтобы не попасть в историю для моделей
+  const compareAIResponsesForChat = async (chatId: string, currentMessages: Message[], assistantIds: string[]): Promise<Message[]> => {
+    const chatBase = chats.find(c => c.id === chatId);
+    const assistants = assistantIds.map(id => chats.find(c => c.id === id)).filter((c): c is Chat => !!c);
+    if (!chatBase || assistants.length === 0) return currentMessages;
+
+    const controller = new AbortController();
+    abortControllersRef.current.set(chatId, controller);
+    const history = [...getInheritedContext(chatBase, chats), ...currentMessages];
+
+    try {
+      const entries = await Promise.all(assistants.map(async (assistant): Promise<ComparisonEntry> => {
+        const startedAt = performance.now();
+        try {
+          const { result: { text, usage } } = await runWithFallback(getAssistantRoutes(assistant), settings.apiKeys, (route, apiKey) => getAIResponse(
+            route.provider, route.modelName, buildSystemPrompt(chatBase, assistant, settings.globalSystemPrompt), history,
+            apiKey, assistant.temperature ?? 0.7, controller.signal
+          ), controller.signal);
+          recordUsage(usage, { kind: 'comparison', chatId, assistantId: assistant.id, assistantName: assistant.name });
+          return { authorId: assistant.id, authorName: assistant.name, text: stripSpeakerPrefixes(text, assistant.name), latencyMs: usage.latencyMs, timestamp: Date.now(), usage };
+        } catch (e: any) {
+          return { authorId: assistant.id, authorName: assistant.name, text: e.message, latencyMs: Math.round(performance.now() - startedAt), timestamp: Date.now(), isError: true, errorKind: e instanceof ProviderError ? e.kind : 'unknown' };
+        }
+      }));
+      if (controller.signal.aborted) return currentMessages;
+
+      const comparisonMsg: Message = {
+        id: `cmp-${Date.now()}`,
+        text: `Compared ${entries.length} answers`,
+        sender: 'system',
+        timestamp: Date.now(),
+        comparison: entries
+      };
+      const finalMessages = [...currentMessages, comparisonMsg];
+      setChats(prev => prev.map(c => c.id === chatId ? { ...c, messages: finalMessages, lastMessage: comparisonMsg.text, lastTimestamp: Date.now() } : c));
+      return finalMessages;
+    } finally {
+      if (abortControllersRef.current.get(chatId) === controller) abortControllersRef.current.delete(chatId);
+    }
+  };
+
+  const stopAIResponse = useCallback((chatId: string) => {
+    abortControllersRef.current.get(chatId)?.abort();
+  }, []);
+
   const handleChatSelection = (id: string) => {
     const chat = chats.find(c => c.id === id);
     if (!chat) return;
@@ -308,12 +483,29 @@ const App: React.FC = () => {
   const handleBranch = (msg: Message) => {
     const parentChat = chats.find(c => c.id === activeChatId);
     if (!parentChat) return;
-    const newDraft: Chat = { ...parentChat, id: generateUniqueId('branch'), name: `Thread: ${msg.text.slice(0, 15)}...`, parentId: parentChat.id, messages: [], lastMessage: "Starting new thread...", lastTimestamp: Date.now(), isPinned: false };
+    const newDraft: Chat = { ...parentChat, id: generateUniqueId('branch'), name: `Thread: ${msg.text.slice(0, 15)}...`, parentId: parentChat.id, branchFromId: msg.id, inheritContext: true, messages: [], lastMessage: "Starting new thread...", lastTimestamp: Date.now(), isPinned: false };
     setPendingBranch({ parentId: parentChat.id, rootMsg: msg });
     setDraftSubChat(newDraft);
     setActiveChatId(newDraft.id);
   };
 
+  // Сводка ветки уходит в родителя от имени пользователя, как пересланное сообщение
+  const handleMergeBack = async (branchId: string) => {
+    const branch = chats.find(c => c.id === branchId);
+    const parent = branch && chats.find(c => c.id === branch.parentId);
+    if (!branch || !parent || branch.messages.length === 0) return;
+    const { text: summary, usage } = await summarizeThread(branch.name, branch.messages, settings.apiKeys, branch);
+    recordUsage(usage, { kind: 'summary', chatId: branch.id, assistantId: branch.id, assistantName: branch.name });
+    const mergeMsg: Message = { id: `merge-${Date.now()}`, text: summary, sender: 'user', timestamp: Date.now(), mergedFrom: { chatId: branch.id, chatName: branch.name } };
+    setChats(prev => prev.map(c => c.id === parent.id ? { ...c, messages: [...c.messages, mergeMsg], lastMessage: summary, lastTimestamp: Date.now() } : c));
+  };
+
+  const handleJumpToChat = (chatId: string) => {
+    setDraftSubChat(null);
+    setPendingBranch(null);
+    setActiveChatId(chatId);
+  };
+
   const handleImportMany = useCallback((newChats: Chat[]) => {
     setChats((prev: Chat[]) => {
       const mergedMap = new Map<string, Chat>(prev.map(c => [c.id, c]));
@@ -341,6 +533,15 @@ const App: React.FC = () => {
 
   return (
     <div className="flex flex-col h-screen w-full max-w-md mx-auto bg-white dark:bg-ios-darkBg overflow-hidden shadow-2xl relative transition-colors duration-300">
+      {persistError && (
+        <div className="bg-red-500 text-white text-xs px-4 py-2 flex items-center z-40 shrink-0">
+          <i className="fa-solid fa-triangle-exclamation mr-2"></i>
+          <span className="flex-1 truncate">Changes not saved: {persistError}</span>
+          {/* Новый массив с теми же чатами перезапускает запись всей накопленной разницы */}
+          <button onClick={() => setChats(prev => [...prev])} className="font-bold ml-2 underline">Retry</button>
+        </div>
+      )}
+
       {settings.activeTab === 'chats' && (
         <header className={`ios-blur bg-white/80 dark:bg-ios-darkBg/80 sticky top-0 z-30 px-4 py-3 flex justify-between items-center ${navigationPath.length > 0 ? 'border-b border-gray-200 dark:border-gray-800' : ''}`}>
           <div className="flex items-center space-x-2 cursor-pointer group" onClick={() => { if (navigationPath.length === 0 && activeTagId !== 'all' && activeTagId !== 'tag-system-archived') setIsEditingTag(activeTag as TagFolder); }}>
@@ -406,7 +607,12 @@ const App: React.FC = () => {
           {settings.activeTab === 'chats' && (
             <div key="chats-main" className="flex h-full w-full modal-animate absolute inset-0 overflow-hidden">
                <div className={`transition-all duration-500 h-full overflow-y-auto border-r border-gray-100 dark:border-gray-900/30 ${navigationPath.length > 0 ? 'w-20' : 'w-full'}`}>
-                  <ChatList chats={sidebarChats} allChats={chats} isFiltered={activeTagId !== 'all' || searchQuery !== ''} isArchivedView={activeTagId === 'tag-system-archived'} shrunk={navigationPath.length > 0} activeParentId={rootAncestorId} onSelectChat={handleChatSelection} onTogglePin={(id) => setChats(prev => prev.map(c => c.id === id ? { ...c, isPinned: !c.isPinned } : c))} onDeleteChat={(id) => setChats(prev => prev.filter(c => c.id !== id))} onArchiveChat={handleArchiveChat} onUnarchiveChat={handleUnarchiveChat} onManageTags={(id) => { setActiveChatId(id); setOpenInProfile(true); }} onDuplicateChat={handleDuplicateChat} />
+                  {!isStorageReady ? (
+                    <div className="flex items-center justify-center h-[30vh] opacity-30"><i className="fa-solid fa-infinity text-3xl text-blue-500 animate-pulse"></i></div>
+                  ) : <ChatList chats={sidebarChats} allChats={chats} isFiltered={activeTagId !== 'all' || searchQuery !== ''} isArchivedView={activeTagId === 'tag-system-archived'} shrunk={navigationPath.length > 0} activeParentId={rootAncestorId} onSelectChat={handleChatSelection} onTogglePin={(id) => setChats(prev => prev.map(c => c.id === id ? { ...c, isPinned: !c.isPinned } : c))} onDeleteChat={(id) => setChats(prev => prev.filter(c => c.id !== id))} onArchiveChat={handleArchiveChat} onUnarchiveChat={handleUnarchiveChat} onManageTags={(id) => { setActiveChatId(id); setOpenInProfile(true); }} onDuplicateChat={handleDuplicateChat} />}
+                  {isStorageReady && searchQuery.trim() && !navigationPath.length && (
+                    <SearchResults query={searchQuery} chats={chats} indexVersion={searchIndexVersion} folders={searchFolders} semanticProvider={settings.semanticSearch ? getEmbeddingProvider(settings.embeddingProvider, settings.apiKeys) : null} apiKeys={settings.apiKeys} onOpen={(chatId, messageId) => { setFocusMessageId(messageId); setActiveChatId(chatId); }} />
+                  )}
                </div>
                {navigationPath.length > 0 && (
                  <div className="flex-1 bg-white dark:bg-[#0a141d] h-full overflow-y-auto modal-animate shadow-2xl z-10 flex flex-col">
@@ -429,7 +635,7 @@ const App: React.FC = () => {
           )}
           {settings.activeTab === 'import' && (
             <div key="import-main" className="modal-animate h-full absolute inset-0 overflow-y-auto">
-              <ImportView onImport={(id) => { const candidate = IMPORT_CATALOG.find(c => c.id === id); if (candidate) { const newChat: Chat = { id: generateUniqueId('imported'), name: candidate.name, avatar: '', provider: settings.defaultProvider, modelName: MODEL_OPTIONS[settings.defaultProvider][0], systemPrompt: candidate.prompt, temperature: 0.7, isPinned: false, messages: [], tags: candidate.tags, lastMessage: 'Assistant added.', lastTimestamp: Date.now() }; setChats(prev => [newChat, ...prev]); setSettings(s => ({ ...s, activeTab: 'chats' })); } }} />
+              <ImportView onImport={(id) => { const candidate = IMPORT_CATALOG.find(c => c.id === id); if (candidate) { const newChat: Chat = { id: generateUniqueId('imported'), name: candidate.name, avatar: '', provider: settings.defaultProvider, modelName: getProviderModels(settings.defaultProvider)[0], systemPrompt: candidate.prompt, temperature: 0.7, isPinned: false, messages: [], tags: candidate.tags, lastMessage: 'Assistant added.', lastTimestamp: Date.now() }; setChats(prev => [newChat, ...prev]); setSettings(s => ({ ...s, activeTab: 'chats' })); } }} />
             </div>
           )}
         </div>
@@ -461,7 +667,7 @@ const App: React.FC = () => {
         </nav>
       )}
 
-      {activeChat && (<div className="fixed inset-0 z-50 bg-white dark:bg-ios-darkBg modal-animate"><ChatWindow chat={activeChat} onClose={() => { setActiveChatId(null); setOpenInProfile(false); setPendingBranch(null); setDraftSubChat(null); }} updateMessages={(msgs) => updateChatMessages(activeChat.id, msgs)} updateChat={(updates) => updateChat(activeChat.id, updates)} onDeleteMessage={(msgId) => setChats(prev => prev.map(c => c.id === activeChat.id ? { ...c, messages: c.messages.filter(m => m.id !== msgId) } : c))} onDeleteChat={() => { setChats(prev => prev.filter(c => c.id !== activeChat.id)); setActiveChatId(null); }} onArchiveChat={() => { handleArchiveChat(activeChat.id); setActiveChatId(null); }} onDuplicateChat={() => { handleDuplicateChat(activeChat.id); setActiveChatId(null); }} apiKey={activeChat.provider === 'openai' ? settings.openaiKey : activeChat.provider === 'deepseek' ? settings.deepseekKey : ''} settings={settings} allChats={chats} onPrepareForward={(text, fromName, targetId) => { setPendingForward({ text, fromName }); setActiveChatId(targetId); }} pendingForward={pendingForward} onClearForward={() => setPendingForward(null)} triggerAIResponse={(msgs, specificId) => triggerAIResponseForChat(activeChat.id, msgs, specificId)} startInProfile={openInProfile} onBranch={handleBranch} branchRootMsg={draftSubChat?.id === activeChatId ? pendingBranch?.rootMsg : null} onOpenSettings={openSettings} /></div>)}
+      {activeChat && (<div className="fixed inset-0 z-50 bg-white dark:bg-ios-darkBg modal-animate"><ChatWindow chat={activeChat} onClose={() => { setActiveChatId(null); setOpenInProfile(false); setPendingBranch(null); setDraftSubChat(null); setPendingForward(null); setFocusMessageId(null); }} updateMessages={(msgs) => updateChatMessages(activeChat.id, msgs)} updateChat={(updates) => updateChat(activeChat.id, updates)} onDeleteMessage={(msgId) => setChats(prev => prev.map(c => c.id === activeChat.id ? { ...c, messages: c.messages.filter(m => m.id !== msgId) } : c))} onDeleteChat={() => { setChats(prev => prev.filter(c => c.id !== activeChat.id)); setActiveChatId(null); }} onArchiveChat={() => { handleArchiveChat(activeChat.id); setActiveChatId(null); }} onDuplicateChat={() => { handleDuplicateChat(activeChat.id); setActiveChatId(null); }} apiKey={resolveApiKey(activeChat.provider, settings.apiKeys)} settings={settings} allChats={chats} onPrepareForward={(forward) => { setPendingForward(forward); setActiveChatId(forward.targetChatId); }} pendingForward={pendingForward} onClearForward={() => setPendingForward(null)} triggerAIResponse={(msgs, specificId, regenerateTarget) => triggerAIResponseForChat(activeChat.id, msgs, specificId, regenerateTarget)} onCompare={(msgs, assistantIds) => compareAIResponsesForChat(activeChat.id, msgs, assistantIds)} startInProfile={openInProfile} onBranch={handleBranch} onJumpToChat={handleJumpToChat} onMergeBack={handleMergeBack} focusMessageId={focusMessageId} branchRootMsg={draftSubChat?.id === activeChatId ? pendingBranch?.rootMsg : null} onOpenSettings={openSettings} streamingMessage={streamingMessage?.chatId === activeChat.id ? streamingMessage.message : null} onStopGeneration={() => stopAIResponse(activeChat.id)} /></div>)}
 
       {isCreatingChat && <CreateAssistantModal settings={settings} onClose={() => setIsCreatingChat(false)} onCreate={(chat) => { setChats(prev => [chat, ...prev]); setIsCreatingChat(false); }} />}
       {isCreatingGroup && <CreateGroupModal onClose={() => setIsCreatingGroup(false)} availableAssistants={chats} onCreate={(chat) => { setChats(prev => [chat, ...prev]); setIsCreatingGroup(false); }} />}
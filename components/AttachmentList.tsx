@@ -0,0 +1,47 @@
+
+import React from 'react';
+import { Attachment } from '../types';
+import { formatFileSize } from '../services/attachmentService';
+
+interface Props {
+  attachments: Attachment[];
+  onRemove?: (id: string) => void;
+  isUser?: boolean;
+}
+
+const FILE_ICONS: Record<Attachment['kind'], string> = {
+  image: 'fa-image',
+  pdf: 'fa-file-pdf',
+  text: 'fa-file-lines'
+};
+
+const AttachmentList: React.FC<Props> = ({ attachments, onRemove, isUser = false }) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map(a => (
+        <div key={a.id} className="relative">
+          {a.kind === 'image' ? (
+            <img src={a.data} alt={a.name} title={a.name} className={`${onRemove ? 'w-16 h-16' : 'max-w-[220px] max-h-56'} object-cover rounded-xl border border-black/5 dark:border-white/10`} />
+          ) : (
+            <div title={a.name} className={`flex items-center space-x-2 px-3 py-2 rounded-xl max-w-[220px] ${isUser ? 'bg-white/20' : 'bg-gray-100 dark:bg-white/5'}`}>
+              <i className={`fa-solid ${FILE_ICONS[a.kind]} ${a.kind === 'pdf' ? 'text-red-500' : 'text-blue-500'}`}></i>
+              <div className="min-w-0">
+                <div className="text-xs font-bold truncate">{a.name}</div>
+                <div className="text-[9px] opacity-60 uppercase">{formatFileSize(a.size)}</div>
+              </div>
+            </div>
+          )}
+          {onRemove && (
+            <button onClick={() => onRemove(a.id)} className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-gray-700 text-white text-[9px] flex items-center justify-center shadow active:scale-90">
+              <i className="fa-solid fa-xmark"></i>
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AttachmentList;
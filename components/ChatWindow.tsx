@@ -1,8 +1,22 @@
 
 import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
-import { Chat, Message, ModelProvider, AppSettings } from '../types';
-import { getAIResponse } from '../services/aiService';
-import { MODEL_OPTIONS } from '../constants';
+import { Chat, Message, MessageVariant, ModelProvider, ModelRoute, AppSettings, TurnStrategy, ArenaRunSettings, ComparisonEntry, Attachment, PendingForward } from '../types';
+import { getAIResponse, planContext } from '../services/aiService';
+import { chooseNextSpeaker, getRunStopReason, buildSystemPrompt, findMentions, DEFAULT_TURN_DELAY_MS } from '../services/arenaService';
+import { ARENA_ROLE_PRESETS, ERROR_KIND_META } from '../constants';
+import { formatCost, getUsageLedger, recordUsage, usageCost } from '../services/usageService';
+import { readAttachment, ATTACHMENT_ACCEPT } from '../services/attachmentService';
+import { getTranscriber, speak, stopSpeaking, loadVoices, isSpeechSynthesisAvailable, DictationSession } from '../services/speechService';
+import { listProviders, getProviderModels, getModelCapabilities } from '../services/providers';
+import { buildThreadTree, getInheritedContext, getThreadRoot } from '../services/threadService';
+import { findRelatedChats, getEmbeddingProvider, RelatedChat } from '../services/embeddingService';
+import MessageContent from './MessageContent';
+import TurnStrategySettings from './TurnStrategySettings';
+import ComparisonCards from './ComparisonCards';
+import FallbackChainSettings from './FallbackChainSettings';
+import AttachmentList from './AttachmentList';
+import ThreadTree from './ThreadTree';
+import ExportSheet from './ExportSheet';
 
 interface Props {
   chat: Chat;
@@ -16,14 +30,21 @@ interface Props {
   apiKey: string;
   settings: AppSettings;
   allChats: Chat[];
-  onPrepareForward: (text: string, fromName: string, targetChatId: string) => void;
-  pendingForward: { text: string, fromName: string } | null;
+  onPrepareForward: (forward: PendingForward) => void;
+  pendingForward: PendingForward | null;
   onClearForward: () => void;
-  triggerAIResponse: (msgs: Message[], specificAuthorId?: string) => Promise<void>;
+  triggerAIResponse: (msgs: Message[], specificAuthorId?: string, regenerateTarget?: Message) => Promise<Message[]>;
   startInProfile?: boolean;
   onBranch?: (msg: Message) => void;
+  onJumpToChat?: (chatId: string) => void;
+  onMergeBack?: (chatId: string) => Promise<void>;
+  /** Message to scroll to when the chat opens from a search result */
+  focusMessageId?: string | null;
   branchRootMsg?: Message | null;
   onOpenSettings?: () => void;
+  streamingMessage?: Message | null;
+  onStopGeneration?: () => void;
+  onCompare?: (msgs: Message[], assistantIds: string[]) => Promise<Message[]>;
 }
 
 const AvatarDisplay: React.FC<{ avatar: string, size?: string, fallbackIcon?: string, isActive?: boolean, color?: string }> = ({ 
@@ -66,29 +87,36 @@ const MultiAvatar: React.FC<{ participants: Chat[], mainAvatar: string }> = ({ p
   );
 };
 
-const HighlightedText: React.FC<{ text: string, highlight: string, isActive: boolean }> = ({ text, highlight, isActive }) => {
-  if (!highlight.trim()) return <>{text}</>;
-  const parts = text.split(new RegExp(`(${highlight})`, 'gi'));
-  return (
-    <>
-      {parts.map((part, i) => 
-        part.toLowerCase() === highlight.toLowerCase() ? (
-          <mark key={i} className={`${isActive ? 'bg-yellow-400 text-black' : 'bg-yellow-200/50 dark:bg-yellow-500/30 dark:text-white'} rounded-sm px-0.5 transition-colors duration-200`}>
-            {part}
-          </mark>
-        ) : part
-      )}
-    </>
-  );
-};
+// Includes the timestamp so a regenerated reply (same id) is read again
+const playbackKey = (msg?: Message) => msg ? `${msg.id}:${msg.timestamp}` : '';
 
 const ChatWindow: React.FC<Props> = ({ 
   chat, onClose, updateMessages, updateChat, onDeleteMessage, onDeleteChat, onArchiveChat, 
   onDuplicateChat, apiKey, settings, allChats, onPrepareForward, pendingForward, onClearForward, 
-  triggerAIResponse, startInProfile = false, onBranch, branchRootMsg = null, onOpenSettings
+  triggerAIResponse, startInProfile = false, onBranch, onJumpToChat, onMergeBack, focusMessageId = null, branchRootMsg = null, onOpenSettings, streamingMessage = null, onStopGeneration, onCompare
 }) => {
   const [inputText, setInputText] = useState(chat.draft || '');
   const [isTyping, setIsTyping] = useState(false);
+  const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>([]);
+  const [isAttachMenuOpen, setIsAttachMenuOpen] = useState(false);
+  // null — not selecting; otherwise ids of messages picked for forwarding
+  const [selectedIds, setSelectedIds] = useState<string[] | null>(null);
+  const [isPickingForwardTarget, setIsPickingForwardTarget] = useState(false);
+  const [showThreadTree, setShowThreadTree] = useState(false);
+  const [showInheritedContext, setShowInheritedContext] = useState(false);
+  const [flashMessageId, setFlashMessageId] = useState<string | null>(null);
+  const [relatedChats, setRelatedChats] = useState<RelatedChat[] | null>(null);
+  // Related chats read the latest list without re-running on every edit to any chat
+  const allChatsRef = useRef(allChats);
+  allChatsRef.current = allChats;
+  const [isExporting, setIsExporting] = useState(false);
+  const [forwardSearch, setForwardSearch] = useState('');
+  const [isDictating, setIsDictating] = useState(false);
+  const dictationRef = useRef<DictationSession | null>(null);
+  const [speakingMessageId, setSpeakingMessageId] = useState<string | null>(null);
+  // Replies already in the chat when it opens are never read out
+  const lastSpokenKey = useRef(playbackKey(chat.messages[chat.messages.length - 1]));
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [showProfile, setShowProfile] = useState(startInProfile);
   
   const [chatSearchText, setChatSearchText] = useState('');
@@ -100,11 +128,21 @@ const ChatWindow: React.FC<Props> = ({
   const [isPickingSender, setIsPickingSender] = useState(false);
   const [senderSearch, setSenderSearch] = useState('');
   const [activeMessageMenuId, setActiveMessageMenuId] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const swipeStartX = useRef<number | null>(null);
+  const replyQueueCancelled = useRef(false);
+  const moderatorAbort = useRef<AbortController | null>(null);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const [isCompareMode, setIsCompareMode] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
 
   const [isAutoFlow, setIsAutoFlow] = useState(false);
   const [isAddingParticipant, setIsAddingParticipant] = useState(false);
   const [participantSearch, setParticipantSearch] = useState('');
   const autoFlowTimer = useRef<number | null>(null);
+  const runStartedAt = useRef<number | null>(null);
+  const [runEndReason, setRunEndReason] = useState<string | null>(null);
 
   const [editPrompt, setEditPrompt] = useState(chat.systemPrompt);
   const [editTemp, setEditTemp] = useState(chat.temperature ?? 0.7);
@@ -113,6 +151,15 @@ const ChatWindow: React.FC<Props> = ({
   const [editProvider, setEditProvider] = useState<ModelProvider>(chat.provider);
   const [editModel, setEditModel] = useState(chat.modelName);
   const [editName, setEditName] = useState(chat.name);
+  const [editMemoryMode, setEditMemoryMode] = useState(!!chat.memoryMode);
+  const [editSummary, setEditSummary] = useState(chat.summary || '');
+  const [editTurnStrategy, setEditTurnStrategy] = useState<TurnStrategy>(chat.turnStrategy || 'round-robin');
+  const [editModeratorId, setEditModeratorId] = useState(chat.moderatorId);
+  const [editTurnWeights, setEditTurnWeights] = useState(chat.turnWeights || {});
+  const [editRunSettings, setEditRunSettings] = useState<ArenaRunSettings>(chat.runSettings || {});
+  const [editRoles, setEditRoles] = useState<Record<string, string>>(chat.participantRoles || {});
+  const [editFallbacks, setEditFallbacks] = useState<ModelRoute[]>(chat.fallbacks || []);
+  const [editVoice, setEditVoice] = useState(chat.voice || '');
   const [isImproving, setIsImproving] = useState(false);
 
   useEffect(() => {
@@ -124,6 +171,15 @@ const ChatWindow: React.FC<Props> = ({
       setEditProvider(chat.provider);
       setEditModel(chat.modelName);
       setEditName(chat.name);
+      setEditMemoryMode(!!chat.memoryMode);
+      setEditSummary(chat.summary || '');
+      setEditTurnStrategy(chat.turnStrategy || 'round-robin');
+      setEditModeratorId(chat.moderatorId);
+      setEditTurnWeights(chat.turnWeights || {});
+      setEditRunSettings(chat.runSettings || {});
+      setEditRoles(chat.participantRoles || {});
+      setEditFallbacks(chat.fallbacks || []);
+      setEditVoice(chat.voice || '');
     }
   }, [chat, showProfile]);
 
@@ -157,6 +213,76 @@ const ChatWindow: React.FC<Props> = ({
     return res;
   }, [chat.id, chat.name, chat.avatar, participants]);
 
+  // Parent history a branch sends ahead of its own messages; never stored in the branch itself
+  const inheritedMessages = useMemo(() => getInheritedContext(chat, allChats), [chat, allChats]);
+  const parentChat = useMemo(() => chat.parentId ? allChats.find(c => c.id === chat.parentId) || null : null, [chat.parentId, allChats]);
+  // Threads created before branch points were recorded can't inherit anything
+  const branchPoint = parentChat?.messages.find(m => m.id === chat.branchFromId);
+  const branchRoot = branchPoint || branchRootMsg;
+  const hasThreads = !!chat.parentId || allChats.some(c => c.parentId === chat.id && !c.tags.includes('#archived'));
+  const threadTree = useMemo(() => showThreadTree ? buildThreadTree(getThreadRoot(chat, allChats), allChats) : null, [showThreadTree, chat, allChats]);
+
+  // The assistant that answers the next send, mirroring the targeting in handleSend
+  const contextPlan = useMemo(() => {
+    const targetId = selectedAuthorId !== 'user' ? selectedAuthorId : (responders.length > 1 ? responders[1].id : chat.id);
+    const target = allChats.find(c => c.id === targetId) || chat;
+    const systemPrompt = buildSystemPrompt(chat, target, settings.globalSystemPrompt);
+    return planContext(target.provider, target.modelName, systemPrompt, [...inheritedMessages, ...chat.messages]);
+  }, [selectedAuthorId, responders, allChats, chat, settings.globalSystemPrompt, inheritedMessages]);
+
+  const mentionableResponders = useMemo(() => responders.filter(r => r.id !== 'user'), [responders]);
+  // A group's own entry has no real model behind it, so only its members can be compared
+  const compareCandidates = useMemo(() => mentionableResponders.filter(r => !(chat.isGroup && r.id === chat.id)), [mentionableResponders, chat.isGroup, chat.id]);
+  const mentionNames = useMemo(() => mentionableResponders.map(r => r.name), [mentionableResponders]);
+  const mentionSuggestions = useMemo(() => {
+    if (mentionQuery === null) return [];
+    const q = mentionQuery.toLowerCase();
+    return mentionableResponders.filter(r => r.name.toLowerCase().includes(q)).slice(0, 6);
+  }, [mentionQuery, mentionableResponders]);
+
+  const handleComposerChange = (value: string, caret: number) => {
+    setInputText(value);
+    const match = value.slice(0, caret).match(/(?:^|\s)@([^\s@]*)$/);
+    setMentionQuery(match && mentionableResponders.length > 1 ? match[1] : null);
+    setMentionIndex(0);
+  };
+
+  const insertMention = (name: string) => {
+    const el = inputRef.current;
+    const caret = el?.selectionStart ?? inputText.length;
+    const before = inputText.slice(0, caret).replace(/@([^\s@]*)$/, `@${name} `);
+    const next = before + inputText.slice(caret);
+    setInputText(next);
+    setMentionQuery(null);
+    setTimeout(() => { el?.focus(); el?.setSelectionRange(before.length, before.length); }, 0);
+  };
+
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (mentionSuggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setMentionIndex(i => (i + step + mentionSuggestions.length) % mentionSuggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(mentionSuggestions[mentionIndex]?.name ?? mentionSuggestions[0].name);
+        return;
+      }
+      if (e.key === 'Escape') { setMentionQuery(null); return; }
+    }
+    if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); }
+  };
+
+  const forwardTargets = useMemo(() => {
+    const sorted = [...allChats].sort((a, b) => (b.lastTimestamp || 0) - (a.lastTimestamp || 0));
+    return sorted.filter(c => c.id !== chat.id && !c.tags.includes('#archived') && c.name.toLowerCase().includes(forwardSearch.toLowerCase()));
+  }, [allChats, chat.id, forwardSearch]);
+
+  // Only shown in the chat the messages were sent to, not wherever the user navigates next
+  const incomingForward = pendingForward?.targetChatId === chat.id ? pendingForward : null;
+
   const personaCandidates = useMemo(() => {
     const sorted = [...allChats].sort((a, b) => (b.lastTimestamp || 0) - (a.lastTimestamp || 0));
     return sorted.filter(c => 
@@ -198,33 +324,131 @@ const ChatWindow: React.FC<Props> = ({
     }
   }, [currentMatchIndex, matches, isSearchVisible]);
 
+  useEffect(() => {
+    if (!focusMessageId) return;
+    const el = document.getElementById(`msg-container-${focusMessageId}`);
+    if (!el) return;
+    el.scrollIntoView({ block: 'center' });
+    setFlashMessageId(focusMessageId);
+    const timer = setTimeout(() => setFlashMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [focusMessageId, chat.id]);
+
+  // Keep the growing streamed reply in view
+  useEffect(() => {
+    if (streamingMessage?.text && !isSearchVisible) {
+      scrollRef.current?.scrollIntoView({ block: 'end' });
+    }
+  }, [streamingMessage?.text, isSearchVisible]);
+
   const triggerNextAI = useCallback(async () => {
     if (responders.length < 2 || isTyping) return;
-    const lastAiMsg = [...chat.messages].reverse().find(m => m.sender === 'ai' && m.authorId);
     const aiResponders = responders.filter(r => r.id !== 'user');
-    let nextIdx = 0;
-    if (lastAiMsg) {
-      const lastIdx = aiResponders.findIndex(r => r.id === lastAiMsg.authorId);
-      nextIdx = (lastIdx + 1) % aiResponders.length;
-    }
+    const runId = runStartedAt.current;
+    const controller = new AbortController();
+    moderatorAbort.current = controller;
+    replyQueueCancelled.current = false;
     setIsTyping(true);
-    try { await triggerAIResponse(chat.messages, aiResponders[nextIdx].id); } finally { setIsTyping(false); }
-  }, [chat.messages, responders, triggerAIResponse, isTyping]);
+    try {
+      const next = await chooseNextSpeaker(chat, aiResponders, chat.messages, { allChats, apiKeys: settings.apiKeys, globalSystemPrompt: settings.globalSystemPrompt }, controller.signal);
+      // Stop pressed or the run ended while the moderator was deciding: no extra turn
+      if (controller.signal.aborted || replyQueueCancelled.current || runStartedAt.current !== runId) return;
+      await triggerAIResponse(chat.messages, next.id);
+    } finally {
+      if (moderatorAbort.current === controller) moderatorAbort.current = null;
+      setIsTyping(false);
+    }
+  }, [chat, responders, triggerAIResponse, isTyping, allChats, settings.apiKeys, settings.globalSystemPrompt]);
+
+  const startAutoFlow = () => {
+    runStartedAt.current = Date.now();
+    setIsAutoFlow(true);
+  };
+
+  const endAutoFlow = (reason: string) => {
+    runStartedAt.current = null;
+    setIsAutoFlow(false);
+    setRunEndReason(reason);
+  };
+
+  // Each speaker reads with their own voice
+  const speakMessage = async (msg: Message) => {
+    const voice = allChats.find(c => c.id === msg.authorId)?.voice ?? chat.voice;
+    setSpeakingMessageId(msg.id);
+    await speak(msg.text, voice);
+    setSpeakingMessageId(prev => prev === msg.id ? null : prev);
+  };
+
+  const handleStopSpeaking = () => {
+    stopSpeaking();
+    setSpeakingMessageId(null);
+  };
+
+  const toggleMessagePlayback = (msg: Message) => {
+    const wasPlaying = speakingMessageId === msg.id;
+    handleStopSpeaking();
+    if (!wasPlaying) speakMessage(msg);
+  };
+
+  const toggleSpeakReplies = () => {
+    if (chat.speakReplies) handleStopSpeaking();
+    // Only replies that arrive after switching on are read, not the one already on screen
+    lastSpokenKey.current = playbackKey(chat.messages[chat.messages.length - 1]);
+    updateChat({ speakReplies: !chat.speakReplies });
+  };
 
   useEffect(() => {
-    if (isAutoFlow && !isTyping && responders.length > 1) {
-      autoFlowTimer.current = window.setTimeout(() => { triggerNextAI(); }, 2500);
+    const last = chat.messages[chat.messages.length - 1];
+    const key = playbackKey(last);
+    if (!last || key === lastSpokenKey.current) return;
+    lastSpokenKey.current = key;
+    if (chat.speakReplies && last.sender === 'ai' && last.text) speakMessage(last);
+  }, [chat.messages, chat.speakReplies]);
+
+  useEffect(() => () => stopSpeaking(), []);
+
+  useEffect(() => {
+    if (showProfile && isSpeechSynthesisAvailable()) loadVoices().then(setVoices);
+  }, [showProfile]);
+
+  // A different chat starts from the spinner; a refresh of the same one keeps the previous list visible
+  useEffect(() => { setRelatedChats(null); }, [chat.id]);
+
+  useEffect(() => {
+    if (!showProfile || !settings.semanticSearch) return;
+    const controller = new AbortController();
+    findRelatedChats(chat.id, allChatsRef.current, getEmbeddingProvider(settings.embeddingProvider, settings.apiKeys), settings.apiKeys, 5, controller.signal)
+      .then(setRelatedChats)
+      .catch(e => { if (!controller.signal.aborted) { console.error('Related chats failed', e); setRelatedChats([]); } });
+    return () => controller.abort();
+  }, [showProfile, chat.id, settings.semanticSearch, settings.embeddingProvider, settings.apiKeys]);
+
+  // Auto Flow waits for the current reply to be read out, so playback goes turn by turn
+  useEffect(() => {
+    if (isAutoFlow && !isTyping && !speakingMessageId && responders.length > 1) {
+      const reason = runStartedAt.current !== null ? getRunStopReason(chat.runSettings, chat, runStartedAt.current, Date.now(), settings.modelPrices, getUsageLedger()) : null;
+      if (reason) { endAutoFlow(reason); return; }
+      autoFlowTimer.current = window.setTimeout(() => { triggerNextAI(); }, chat.runSettings?.turnDelayMs ?? DEFAULT_TURN_DELAY_MS);
     }
     return () => { if(autoFlowTimer.current) clearTimeout(autoFlowTimer.current); };
-  }, [isAutoFlow, isTyping, chat.messages, responders.length, triggerNextAI]);
+  }, [isAutoFlow, isTyping, speakingMessageId, chat.messages, chat.runSettings, responders.length, triggerNextAI, settings.modelPrices]);
+
+  // Posted once the current turn has been committed, otherwise the reply would overwrite it
+  useEffect(() => {
+    if (!runEndReason || isTyping) return;
+    const stopMsg: Message = { id: `sys-${Date.now()}`, text: `Auto Flow stopped: ${runEndReason}`, sender: 'system', timestamp: Date.now() };
+    updateMessages([...chat.messages, stopMsg]);
+    setRunEndReason(null);
+  }, [runEndReason, isTyping]);
 
   const handleImprovePrompt = async () => {
     if (isImproving) return;
     setIsImproving(true);
     try {
-      const improved = await getAIResponse('gemini', 'gemini-3-flash-preview', 
+      const { text: improved, usage } = await getAIResponse('gemini', 'gemini-3-flash-preview', 
         "Expert prompt engineer. Refine instructions into a professional system prompt. Output ONLY refined text.", 
         [{ id: '1', text: editPrompt, sender: 'user', timestamp: Date.now() }], '', 0.8);
+      recordUsage(usage, { kind: 'prompt', chatId: chat.id, assistantId: chat.id, assistantName: chat.name });
       setEditPrompt(improved.trim());
     } catch (e) { console.error(e); } finally { setIsImproving(false); }
   };
@@ -237,17 +461,38 @@ const ChatWindow: React.FC<Props> = ({
       tags: editTags, 
       avatar: editAvatar, 
       provider: editProvider, 
-      modelName: editModel 
+      modelName: editModel,
+      memoryMode: editMemoryMode,
+      // An emptied summary also drops its marker so the dropped messages get condensed again
+      summary: editSummary.trim() || undefined,
+      summarizedUntilId: editSummary.trim() ? chat.summarizedUntilId : undefined,
+      turnStrategy: editTurnStrategy,
+      moderatorId: editTurnStrategy === 'moderator' ? editModeratorId : undefined,
+      turnWeights: editTurnStrategy === 'weighted' ? editTurnWeights : undefined,
+      runSettings: editRunSettings,
+      participantRoles: Object.fromEntries(Object.entries<string>(editRoles).map(([id, role]) => [id, role.trim()]).filter(([, role]) => role)),
+      fallbacks: editFallbacks.length > 0 ? editFallbacks : undefined,
+      voice: editVoice || undefined
     });
     setShowProfile(false);
   };
 
   const handleSend = async () => {
     const textToSend = inputText.trim();
-    if (!textToSend && selectedAuthorId === 'user') return;
+    if (!textToSend && pendingAttachments.length === 0 && !incomingForward && selectedAuthorId === 'user') return;
+
+    if (editingMessageId) {
+      await handleResubmitEdit(textToSend);
+      return;
+    }
     
     let newMsgs = [...chat.messages];
-    if (textToSend) {
+    if (incomingForward) {
+      newMsgs.push(...buildForwardedMessages(incomingForward));
+      onClearForward();
+      if (!textToSend && pendingAttachments.length === 0) updateMessages(newMsgs);
+    }
+    if (textToSend || pendingAttachments.length > 0) {
       const isImpersonating = senderPersonaId !== 'user';
       const senderMsg: Message = { 
         id: `msg-${Date.now()}`, 
@@ -255,31 +500,208 @@ const ChatWindow: React.FC<Props> = ({
         sender: isImpersonating ? 'ai' : 'user', 
         authorId: isImpersonating ? currentSender.id : undefined,
         authorName: isImpersonating ? currentSender.name : undefined,
-        timestamp: Date.now() 
+        timestamp: Date.now(),
+        ...(pendingAttachments.length > 0 ? { attachments: pendingAttachments } : {})
       };
       newMsgs.push(senderMsg);
       setInputText('');
+      setPendingAttachments([]);
       updateMessages(newMsgs);
     }
     
-    if (senderPersonaId === 'user') {
+    if (senderPersonaId === 'user') await replyTo(newMsgs, textToSend);
+  };
+
+  // @mentioned assistants answer in mention order, each seeing the previous replies; otherwise the focused responder answers
+  const replyTo = async (msgs: Message[], text: string) => {
+    if (isCompareMode && compareIds.length > 1 && onCompare) {
       setIsTyping(true);
+      try { await onCompare(msgs, compareIds); } finally { setIsTyping(false); }
+      return;
+    }
+
+    const mentioned = findMentions(text, mentionableResponders);
+    const queue = mentioned.length > 0
+      ? mentioned.map(r => r.id)
+      : [selectedAuthorId === 'user' ? (responders.length > 1 ? responders[1].id : undefined) : selectedAuthorId];
+
+    replyQueueCancelled.current = false;
+    setIsTyping(true);
+    try {
+      let history = msgs;
+      for (const targetId of queue) {
+        if (replyQueueCancelled.current) break;
+        history = await triggerAIResponse(history, targetId);
+      }
+    } finally { setIsTyping(false); }
+  };
+
+  // Forwarded copies belong to the user but keep who originally wrote them
+  const buildForwardedMessages = (forward: PendingForward): Message[] => forward.messages.map((m, i) => ({
+    id: `fwd-${Date.now()}-${i}`,
+    text: m.text,
+    sender: 'user',
+    timestamp: Date.now(),
+    ...(m.attachments ? { attachments: m.attachments } : {}),
+    forwardedFrom: {
+      chatId: forward.fromChatId,
+      chatName: forward.fromName,
+      authorName: m.authorName || (m.sender === 'user' ? 'You' : forward.fromName)
+    }
+  }));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev && (prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]));
+  };
+
+  const handleForwardTo = (targetChatId: string) => {
+    const messages = chat.messages.filter(m => selectedIds?.includes(m.id));
+    setIsPickingForwardTarget(false);
+    setForwardSearch('');
+    setSelectedIds(null);
+    if (messages.length > 0) onPrepareForward({ messages, fromChatId: chat.id, fromName: chat.name, targetChatId });
+  };
+
+  const toggleCompareMode = () => {
+    if (!isCompareMode) setCompareIds(compareCandidates.map(r => r.id));
+    setIsCompareMode(!isCompareMode);
+  };
+
+  const toggleCompareTarget = (id: string) => {
+    setCompareIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+  };
+
+  // The winner becomes a regular reply; the other successful answers stay reachable as its variants
+  const handlePickWinner = (msg: Message, index: number) => {
+    const entries = msg.comparison || [];
+    const toVariant = (e: ComparisonEntry): MessageVariant => ({ text: e.text, sender: 'ai', authorId: e.authorId, authorName: e.authorName, timestamp: e.timestamp, usage: e.usage });
+    const answered = entries.filter(e => !e.isError);
+    const winner: Message = { ...toVariant(entries[index]), id: msg.id, variants: answered.map(toVariant), activeVariant: answered.indexOf(entries[index]) };
+    updateMessages(chat.messages.map(m => m.id === msg.id ? winner : m));
+  };
+
+  const handleStartEdit = (msg: Message) => {
+    setEditingMessageId(msg.id);
+    setInputText(msg.text);
+    setActiveMessageMenuId(null);
+    setTimeout(() => inputRef.current?.focus(), 50);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessageId(null);
+    setInputText('');
+  };
+
+  // Replaces the edited message and drops everything after it, so the reply only sees history up to that point
+  const handleResubmitEdit = async (text: string) => {
+    const idx = chat.messages.findIndex(m => m.id === editingMessageId);
+    if (idx === -1 || !text) { handleCancelEdit(); return; }
+    const laterCount = chat.messages.length - idx - 1;
+    if (laterCount > 0 && !confirm(`Resubmitting will replace ${laterCount} later message${laterCount === 1 ? '' : 's'}. Continue?`)) return;
+
+    const newMsgs = [...chat.messages.slice(0, idx), { ...chat.messages[idx], text, editedAt: Date.now() }];
+    setEditingMessageId(null);
+    setInputText('');
+    updateMessages(newMsgs);
+    await replyTo(newMsgs, text);
+  };
+
+  const handleRegenerate = async (msg: Message) => {
+    setActiveMessageMenuId(null);
+    if (isTyping) return;
+    const idx = chat.messages.findIndex(m => m.id === msg.id);
+    if (idx === -1) return;
+    const laterCount = chat.messages.length - idx - 1;
+    if (laterCount > 0 && !confirm(`Regenerating will remove ${laterCount} later message${laterCount === 1 ? '' : 's'}. Continue?`)) return;
+    if (laterCount > 0) updateMessages(chat.messages.slice(0, idx + 1));
+
+    setIsTyping(true);
+    try { await triggerAIResponse(chat.messages.slice(0, idx), msg.authorId, msg); } finally { setIsTyping(false); }
+  };
+
+  const handleSelectVariant = (msg: Message, index: number) => {
+    if (!msg.variants || index < 0 || index >= msg.variants.length || index === msg.activeVariant) return;
+    const selected: Message = { ...msg.variants[index], id: msg.id, variants: msg.variants, activeVariant: index };
+    updateMessages(chat.messages.map(m => m.id === msg.id ? selected : m));
+  };
+
+  const handleVariantSwipe = (msg: Message, endX: number) => {
+    if (swipeStartX.current === null || !msg.variants) return;
+    const dx = endX - swipeStartX.current;
+    swipeStartX.current = null;
+    if (Math.abs(dx) < 50) return;
+    handleSelectVariant(msg, (msg.activeVariant ?? msg.variants.length - 1) + (dx < 0 ? 1 : -1));
+  };
+
+  const handleStop = () => {
+    // Stopping mid-turn also ends Auto Flow, otherwise the next speaker would be queued right away
+    if (isAutoFlow) endAutoFlow('stopped by user.');
+    replyQueueCancelled.current = true;
+    moderatorAbort.current?.abort();
+    handleStopSpeaking();
+    onStopGeneration?.();
+  };
+
+  // Push-to-talk: recording runs while the mic button is held, the transcript is appended to the draft
+  const startDictation = () => {
+    if (dictationRef.current) return;
+    const transcriber = getTranscriber(settings.transcriber, settings.apiKeys);
+    if (!transcriber) {
+      alert('Voice input is not available in this browser. Add an OpenAI key in Settings to use Whisper.');
+      return;
+    }
+    handleStopSpeaking();
+    const base = inputText.trim();
+    const withBase = (text: string) => [base, text].filter(Boolean).join(' ');
+    setIsDictating(true);
+    dictationRef.current = transcriber.start({
+      lang: navigator.language,
+      apiKeys: settings.apiKeys,
+      onPartial: (text) => setInputText(withBase(text)),
+      onFinal: (text) => {
+        if (text) setInputText(withBase(text));
+        dictationRef.current = null;
+        setIsDictating(false);
+      },
+      onError: (message) => alert(message)
+    });
+  };
+
+  const stopDictation = () => dictationRef.current?.stop();
+
+  // Re-asks the assistant that failed; only offered for the last message so history stays linear
+  const handleRetry = async (msg: Message) => {
+    if (isTyping || !msg.authorId) return;
+    const rest = chat.messages.filter(m => m.id !== msg.id);
+    updateMessages(rest);
+    setIsTyping(true);
+    try { await triggerAIResponse(rest, msg.authorId); } finally { setIsTyping(false); }
+  };
+
+  const addAttachments = async (files: File[]) => {
+    for (const file of files) {
       try {
-        if (selectedAuthorId === 'user') {
-          const defaultTargetId = responders.length > 1 ? responders[1].id : undefined;
-          await triggerAIResponse(newMsgs, defaultTargetId);
-        } else {
-          await triggerAIResponse(newMsgs, selectedAuthorId);
-        }
-      } finally { setIsTyping(false); }
+        const attachment = await readAttachment(file);
+        setPendingAttachments(prev => [...prev, attachment]);
+      } catch (e: any) {
+        alert(e.message);
+      }
     }
   };
 
-  const getSystemIcon = (text: string) => {
-    const t = text.toLowerCase();
-    if (t.includes('auth') || t.includes('key')) return 'fa-key';
-    if (t.includes('billing') || t.includes('balance')) return 'fa-credit-card';
-    return 'fa-circle-info';
+  const handleAttachInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []);
+    e.target.value = '';
+    setIsAttachMenuOpen(false);
+    addAttachments(files);
+  };
+
+  // Screenshots pasted from the clipboard arrive as files; plain text paste is left to the textarea
+  const handleComposerPaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from<File>(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addAttachments(files);
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -311,51 +733,129 @@ const ChatWindow: React.FC<Props> = ({
         <div className="flex items-center space-x-2 shrink-0">
           {responders.length > 2 && (
              <button 
-               onClick={() => setIsAutoFlow(!isAutoFlow)}
+               onClick={() => isAutoFlow ? endAutoFlow('stopped by user.') : startAutoFlow()}
                className={`w-9 h-5 rounded-full relative transition-all duration-300 ${isAutoFlow ? 'bg-green-500 shadow-lg shadow-green-500/20' : 'bg-gray-200 dark:bg-gray-800'}`}
              >
                <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full shadow-sm transition-all duration-300 ${isAutoFlow ? 'left-[18px]' : 'left-0.5'}`} />
              </button>
           )}
+          {isSpeechSynthesisAvailable() && (
+            <button onClick={toggleSpeakReplies} title={chat.speakReplies ? 'Stop reading replies aloud' : 'Read replies aloud'} className={`p-1 ${chat.speakReplies ? 'text-blue-500' : 'text-gray-400'}`}>
+              <i className={`fa-solid ${chat.speakReplies ? (speakingMessageId ? 'fa-volume-high animate-pulse' : 'fa-volume-high') : 'fa-volume-xmark'} text-lg`}></i>
+            </button>
+          )}
+          {hasThreads && (
+            <button onClick={() => setShowThreadTree(true)} title="Threads" className="p-1 text-purple-500"><i className="fa-solid fa-sitemap text-lg"></i></button>
+          )}
           <button onClick={() => setShowProfile(true)} className="text-blue-500 p-1"><i className="fa-solid fa-ellipsis text-xl"></i></button>
         </div>
       </header>
 
       <div ref={messagesContainerRef} className="flex-1 overflow-y-auto px-4 py-6 space-y-6 no-scrollbar" onClick={() => setActiveMessageMenuId(null)}>
+        {parentChat && (
+          <div className="rounded-2xl border border-dashed border-gray-300 dark:border-gray-700 p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <button onClick={() => setShowInheritedContext(v => !v)} disabled={inheritedMessages.length === 0} className="flex items-center min-w-0 text-[10px] font-bold text-gray-500 uppercase tracking-tight">
+                <i className="fa-solid fa-code-branch text-purple-500 mr-2"></i>
+                <span className="truncate">Branched from {parentChat.name}{chat.inheritContext && inheritedMessages.length > 0 ? ` • ${inheritedMessages.length} messages of context` : ''}</span>
+                {inheritedMessages.length > 0 && <i className={`fa-solid fa-chevron-${showInheritedContext ? 'up' : 'down'} ml-1 text-[8px]`}></i>}
+              </button>
+              {branchPoint && (
+              <button
+                onClick={() => updateChat({ inheritContext: !chat.inheritContext })}
+                title={chat.inheritContext ? 'The model sees the parent chat up to the branch point' : 'The model sees only this thread'}
+                className={`w-9 h-5 shrink-0 ml-2 rounded-full relative transition-all duration-300 ${chat.inheritContext ? 'bg-purple-500' : 'bg-gray-200 dark:bg-gray-800'}`}
+              >
+                <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full shadow-sm transition-all duration-300 ${chat.inheritContext ? 'left-[18px]' : 'left-0.5'}`} />
+              </button>
+              )}
+            </div>
+            {branchRoot && !showInheritedContext && <p className="text-xs text-gray-500 dark:text-gray-400 italic line-clamp-2">“{branchRoot.text}”</p>}
+            {showInheritedContext && (
+              <div className="max-h-64 overflow-y-auto space-y-1.5 opacity-70">
+                {inheritedMessages.filter(m => m.sender !== 'system').map(m => (
+                  <p key={m.id} className="text-xs text-gray-600 dark:text-gray-300 line-clamp-3"><span className="font-bold">{m.authorName || (m.sender === 'user' ? 'You' : parentChat.name)}:</span> {m.text}</p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
         {chat.messages.length === 0 && (
           <div className="flex flex-col items-center justify-center h-full opacity-30 text-center px-10">
             <i className="fa-solid fa-infinity text-5xl mb-4 text-blue-500"></i>
             <p className="text-xs font-black uppercase tracking-[0.2em]">Context Established</p>
           </div>
         )}
-        {chat.messages.map((msg) => (
+        {chat.messages.filter(m => !(streamingMessage?.text && m.id === streamingMessage.id)).map((msg) => (
           <div 
             id={`msg-container-${msg.id}`} 
             key={msg.id} 
             className={`flex flex-col w-full group ${msg.sender === 'user' ? 'items-end' : (msg.sender === 'system' ? 'items-center' : 'items-start')}`}
           >
-            {msg.sender === 'system' ? (
+            {msg.comparison ? (
+              <ComparisonCards entries={msg.comparison} onPick={(i) => handlePickWinner(msg, i)} disabled={isTyping} />
+            ) : msg.sender === 'system' ? (
               <div className="flex flex-col items-center w-full my-4">
                 <div className={`${msg.isError ? 'message-bubble-error flex items-start gap-2' : 'message-bubble-system'} selectable-text`}>
-                  {msg.isError && <i className={`fa-solid ${getSystemIcon(msg.text)} mt-1 opacity-70`}></i>}
-                  <span>{msg.text}</span>
+                  {msg.isError && <i className={`fa-solid ${ERROR_KIND_META[msg.errorKind || 'unknown'].icon} mt-1 opacity-70`}></i>}
+                  <span>
+                    {msg.text}
+                    {msg.isError && ERROR_KIND_META[msg.errorKind || 'unknown'].hint && <span className="block text-[11px] opacity-70 mt-0.5">{ERROR_KIND_META[msg.errorKind || 'unknown'].hint}</span>}
+                  </span>
                 </div>
+                {msg.isError && msg.authorId && msg.id === chat.messages[chat.messages.length - 1]?.id && (
+                  <button onClick={() => handleRetry(msg)} disabled={isTyping} className="mt-2 px-3 py-1 text-[10px] font-black uppercase text-blue-500 bg-blue-50 dark:bg-blue-900/20 rounded-full active:opacity-50 disabled:opacity-30">
+                    <i className="fa-solid fa-rotate-right mr-1"></i>Retry
+                  </button>
+                )}
               </div>
             ) : (
               <div className="flex flex-col relative max-w-[85%]">
                 {msg.authorName && <span className={`text-[9px] font-black uppercase text-gray-400 mb-0.5 px-2 ${msg.sender === 'user' ? 'text-right' : 'text-left'}`}>{msg.authorName}</span>}
                 <div 
-                  onClick={(e) => { e.stopPropagation(); setActiveMessageMenuId(activeMessageMenuId === msg.id ? null : msg.id); }}
-                  className={`px-4 py-2.5 rounded-2xl text-[15px] shadow-sm relative transition-all cursor-pointer select-none active:scale-[0.98] ${msg.sender === 'user' ? 'message-bubble-user' : 'message-bubble-ai border dark:border-ios-darkSurface'} ${activeMessageMenuId === msg.id ? 'ring-2 ring-blue-500 ring-offset-2 dark:ring-offset-[#010d18]' : ''} ${matches[currentMatchIndex] === msg.id && chatSearchText ? 'ring-2 ring-yellow-400' : ''}`}
+                  onClick={(e) => { e.stopPropagation(); if (selectedIds) toggleSelected(msg.id); else setActiveMessageMenuId(activeMessageMenuId === msg.id ? null : msg.id); }}
+                  onTouchStart={msg.variants ? (e) => { swipeStartX.current = e.touches[0].clientX; } : undefined}
+                  onTouchEnd={msg.variants ? (e) => handleVariantSwipe(msg, e.changedTouches[0].clientX) : undefined}
+                  className={`px-4 py-2.5 rounded-2xl text-[15px] shadow-sm relative transition-all cursor-pointer select-none active:scale-[0.98] ${msg.sender === 'user' ? 'message-bubble-user' : 'message-bubble-ai border dark:border-ios-darkSurface'} ${activeMessageMenuId === msg.id ? 'ring-2 ring-blue-500 ring-offset-2 dark:ring-offset-[#010d18]' : ''} ${(matches[currentMatchIndex] === msg.id && chatSearchText) || flashMessageId === msg.id ? 'ring-2 ring-yellow-400' : ''} ${selectedIds?.includes(msg.id) ? 'ring-2 ring-blue-500 ring-offset-2 dark:ring-offset-[#010d18]' : ''}`}
                 >
-                  <p className="whitespace-pre-wrap leading-relaxed selectable-text pointer-events-none"><HighlightedText text={msg.text} highlight={chatSearchText} isActive={matches[currentMatchIndex] === msg.id} /></p>
-                  <div className="text-[9px] mt-1 opacity-40 text-right">{new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</div>
+                  {msg.mergedFrom && (
+                    <div className="pointer-events-none text-[11px] font-bold mb-1 pl-2 border-l-2 border-white/60 opacity-80">
+                      <i className="fa-solid fa-code-merge mr-1"></i>Summary of thread {msg.mergedFrom.chatName}
+                    </div>
+                  )}
+                  {msg.forwardedFrom && (
+                    <div className={`pointer-events-none text-[11px] font-bold mb-1 pl-2 border-l-2 ${msg.sender === 'user' ? 'border-white/60 opacity-80' : 'border-blue-500 text-blue-500'}`}>
+                      <i className="fa-solid fa-share mr-1"></i>Forwarded from {msg.forwardedFrom.authorName}
+                      {msg.forwardedFrom.authorName !== msg.forwardedFrom.chatName && <span className="font-normal opacity-70"> • {msg.forwardedFrom.chatName}</span>}
+                    </div>
+                  )}
+                  {msg.attachments && <div className={`pointer-events-none ${msg.text ? 'mb-2' : ''}`}><AttachmentList attachments={msg.attachments} isUser={msg.sender === 'user'} /></div>}
+                  <div className="pointer-events-none"><MessageContent text={msg.text} highlight={chatSearchText} isActive={matches[currentMatchIndex] === msg.id} isUser={msg.sender === 'user'} mentions={mentionNames} /></div>
+                  <div className="text-[9px] mt-1 opacity-40 text-right">
+                    {msg.isInterrupted && <span className="font-black uppercase tracking-tight mr-1.5"><i className="fa-solid fa-stop mr-1"></i>Interrupted</span>}
+                    {msg.editedAt && <span className="mr-1.5">edited</span>}
+                    {msg.isFallback && msg.usage && <span className="mr-1.5" title="Answered by a fallback model"><i className="fa-solid fa-shuffle mr-1"></i>{msg.usage.modelName}</span>}
+                    {msg.usage && <span className="mr-1.5" title={`${msg.usage.modelName} • ${msg.usage.promptTokens.toLocaleString()} in / ${msg.usage.completionTokens.toLocaleString()} out`}>{msg.usage.estimated ? '~' : ''}{(msg.usage.promptTokens + msg.usage.completionTokens).toLocaleString()} tok • {(msg.usage.latencyMs / 1000).toFixed(1)}s{usageCost(msg.usage, settings.modelPrices) !== null && ` • ${formatCost(usageCost(msg.usage, settings.modelPrices)!)}`}</span>}
+                    {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </div>
                 </div>
 
+                {msg.variants && msg.variants.length > 1 && (
+                  <div className="flex items-center space-x-2 mt-1 px-2 text-[10px] font-bold text-gray-400">
+                    <button onClick={() => handleSelectVariant(msg, (msg.activeVariant ?? msg.variants!.length - 1) - 1)} disabled={isTyping || (msg.activeVariant ?? msg.variants.length - 1) === 0} className="active:opacity-50 disabled:opacity-30"><i className="fa-solid fa-chevron-left"></i></button>
+                    <span>{(msg.activeVariant ?? msg.variants.length - 1) + 1} / {msg.variants.length}</span>
+                    <button onClick={() => handleSelectVariant(msg, (msg.activeVariant ?? msg.variants!.length - 1) + 1)} disabled={isTyping || (msg.activeVariant ?? msg.variants.length - 1) === msg.variants.length - 1} className="active:opacity-50 disabled:opacity-30"><i className="fa-solid fa-chevron-right"></i></button>
+                  </div>
+                )}
+
                 {activeMessageMenuId === msg.id && (
                   <div className={`absolute z-50 top-full mt-2 w-32 bg-white/95 dark:bg-ios-darkSurface/95 ios-blur rounded-xl shadow-2xl border border-gray-100 dark:border-gray-800 py-1 message-menu-pop ${msg.sender === 'user' ? 'right-0' : 'left-0'}`}>
                     <button onClick={(e) => { e.stopPropagation(); onBranch?.(msg); setActiveMessageMenuId(null); }} className="w-full text-left px-4 py-2.5 text-xs font-bold text-blue-500 flex items-center"><i className="fa-solid fa-code-branch w-5"></i> Thread</button>
                     <button onClick={(e) => { e.stopPropagation(); navigator.clipboard.writeText(msg.text); setActiveMessageMenuId(null); }} className="w-full text-left px-4 py-2.5 text-xs font-bold text-gray-600 dark:text-gray-300 flex items-center"><i className="fa-solid fa-copy w-5"></i> Copy</button>
+                    <button onClick={(e) => { e.stopPropagation(); setSelectedIds([msg.id]); setActiveMessageMenuId(null); }} className="w-full text-left px-4 py-2.5 text-xs font-bold text-gray-600 dark:text-gray-300 flex items-center"><i className="fa-solid fa-share w-5"></i> Forward</button>
+                    {msg.sender === 'user' && <button onClick={(e) => { e.stopPropagation(); handleStartEdit(msg); }} disabled={isTyping} className="w-full text-left px-4 py-2.5 text-xs font-bold text-gray-600 dark:text-gray-300 flex items-center disabled:opacity-40"><i className="fa-solid fa-pen w-5"></i> Edit</button>}
+                    {msg.sender === 'ai' && isSpeechSynthesisAvailable() && <button onClick={(e) => { e.stopPropagation(); setActiveMessageMenuId(null); toggleMessagePlayback(msg); }} className="w-full text-left px-4 py-2.5 text-xs font-bold text-gray-600 dark:text-gray-300 flex items-center"><i className={`fa-solid ${speakingMessageId === msg.id ? 'fa-stop' : 'fa-volume-high'} w-5`}></i> {speakingMessageId === msg.id ? 'Stop' : 'Listen'}</button>}
+                    {msg.sender === 'ai' && <button onClick={(e) => { e.stopPropagation(); handleRegenerate(msg); }} disabled={isTyping} className="w-full text-left px-4 py-2.5 text-xs font-bold text-gray-600 dark:text-gray-300 flex items-center disabled:opacity-40"><i className="fa-solid fa-rotate-right w-5"></i> Regenerate</button>}
                     <button onClick={(e) => { e.stopPropagation(); onDeleteMessage(msg.id); setActiveMessageMenuId(null); }} className="w-full text-left px-4 py-2.5 text-xs font-bold text-red-500 flex items-center border-t border-gray-50 dark:border-gray-800"><i className="fa-solid fa-trash w-5"></i> Delete</button>
                   </div>
                 )}
@@ -363,16 +863,43 @@ const ChatWindow: React.FC<Props> = ({
             )}
           </div>
         ))}
-        {isTyping && <div className="flex justify-start"><div className="bg-gray-100 dark:bg-ios-darkSurface px-4 py-3 rounded-2xl flex space-x-1 items-center animate-pulse"><div className="w-1.5 h-1.5 bg-blue-400 rounded-full"></div><div className="w-1.5 h-1.5 bg-blue-500 rounded-full"></div><div className="w-1.5 h-1.5 bg-blue-600 rounded-full"></div></div></div>}
+        {streamingMessage && streamingMessage.text && (
+          <div id={`msg-container-${streamingMessage.id}`} className="flex flex-col w-full items-start">
+            <div className="flex flex-col relative max-w-[85%]">
+              {streamingMessage.authorName && <span className="text-[9px] font-black uppercase text-gray-400 mb-0.5 px-2 text-left">{streamingMessage.authorName}</span>}
+              <div className="px-4 py-2.5 rounded-2xl text-[15px] shadow-sm relative message-bubble-ai border dark:border-ios-darkSurface">
+                <MessageContent text={streamingMessage.text} highlight="" isActive={false} mentions={mentionNames} />
+                <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-blue-500 animate-pulse rounded-sm"></span>
+              </div>
+            </div>
+          </div>
+        )}
+        {isTyping && !streamingMessage?.text && <div className="flex justify-start"><div className="bg-gray-100 dark:bg-ios-darkSurface px-4 py-3 rounded-2xl flex space-x-1 items-center animate-pulse"><div className="w-1.5 h-1.5 bg-blue-400 rounded-full"></div><div className="w-1.5 h-1.5 bg-blue-500 rounded-full"></div><div className="w-1.5 h-1.5 bg-blue-600 rounded-full"></div></div></div>}
         <div ref={scrollRef} />
       </div>
 
+      {selectedIds ? (
+      <footer className="ios-blur bg-white/90 dark:bg-ios-darkBg/90 border-t border-gray-200 dark:border-gray-800 px-4 py-3 safe-bottom flex items-center justify-between z-40">
+        <button onClick={() => setSelectedIds(null)} className="text-sm font-bold text-blue-500 active:opacity-50">Cancel</button>
+        <span className="text-xs font-black uppercase tracking-widest text-gray-500">{selectedIds.length} selected</span>
+        <button onClick={() => setIsPickingForwardTarget(true)} disabled={selectedIds.length === 0} className="text-sm font-black text-blue-500 active:opacity-50 disabled:opacity-30"><i className="fa-solid fa-share mr-1"></i>Forward</button>
+      </footer>
+      ) : (
       <footer className="ios-blur bg-white/90 dark:bg-ios-darkBg/90 border-t border-gray-200 dark:border-gray-800 p-2 safe-bottom flex flex-col z-40">
         <div className="flex items-center space-x-3 px-3 mb-2 overflow-x-auto no-scrollbar py-1 h-11 items-center">
-            {responders.map(r => (
+            {compareCandidates.length > 1 && onCompare && (
+              <button 
+                onClick={toggleCompareMode}
+                title="Compare answers"
+                className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 transition-all ${isCompareMode ? 'bg-green-500 text-white shadow-lg shadow-green-500/20' : 'bg-gray-100 dark:bg-ios-darkSurface text-gray-400'}`}
+              >
+                <i className="fa-solid fa-scale-balanced text-[11px]"></i>
+              </button>
+            )}
+            {(isCompareMode ? compareCandidates : responders).map(r => (
               <div key={r.id} className="flex flex-col items-center shrink-0">
-                <button onClick={() => setSelectedAuthorId(r.id)} className="relative group flex flex-col items-center py-0.5">
-                  <AvatarDisplay avatar={r.avatar} isActive={selectedAuthorId === r.id} color={r.color} fallbackIcon={r.icon} size="w-8 h-8" />
+                <button onClick={() => isCompareMode ? toggleCompareTarget(r.id) : setSelectedAuthorId(r.id)} className="relative group flex flex-col items-center py-0.5">
+                  <AvatarDisplay avatar={r.avatar} isActive={isCompareMode ? compareIds.includes(r.id) : selectedAuthorId === r.id} color={r.color} fallbackIcon={r.icon} size="w-8 h-8" />
                 </button>
               </div>
             ))}
@@ -391,28 +918,161 @@ const ChatWindow: React.FC<Props> = ({
              </button>
           </div>
 
-          <div className="flex-1 bg-gray-100 dark:bg-ios-darkSurface rounded-2xl px-4 py-2 flex flex-col min-h-[44px]">
+          <div className="relative shrink-0 mb-1">
+            <button onClick={() => setIsAttachMenuOpen(!isAttachMenuOpen)} title="Attach" className={`w-11 h-11 rounded-full flex items-center justify-center transition-all active:scale-90 ${isAttachMenuOpen ? 'text-blue-500' : 'text-gray-400'}`}>
+              <i className="fa-solid fa-paperclip text-lg"></i>
+            </button>
+            {isAttachMenuOpen && (
+              <div className="absolute bottom-full left-0 mb-2 w-40 bg-white/95 dark:bg-ios-darkSurface/95 ios-blur rounded-xl shadow-2xl border border-gray-100 dark:border-gray-800 py-1 z-50 message-menu-pop">
+                <label className="w-full text-left px-4 py-2.5 text-xs font-bold text-gray-600 dark:text-gray-300 flex items-center cursor-pointer"><i className="fa-solid fa-photo-film w-5"></i> Photo or File<input type="file" multiple accept={ATTACHMENT_ACCEPT} onChange={handleAttachInput} className="hidden" /></label>
+                <label className="w-full text-left px-4 py-2.5 text-xs font-bold text-gray-600 dark:text-gray-300 flex items-center cursor-pointer"><i className="fa-solid fa-camera w-5"></i> Camera<input type="file" accept="image/*" capture="environment" onChange={handleAttachInput} className="hidden" /></label>
+              </div>
+            )}
+          </div>
+
+          <div className="relative flex-1 bg-gray-100 dark:bg-ios-darkSurface rounded-2xl px-4 py-2 flex flex-col min-h-[44px]">
+            {mentionSuggestions.length > 0 && (
+              <div className="absolute bottom-full left-0 right-0 mb-2 bg-white/95 dark:bg-ios-darkSurface/95 ios-blur rounded-xl shadow-2xl border border-gray-100 dark:border-gray-800 py-1 z-50 message-menu-pop">
+                {mentionSuggestions.map((r, i) => (
+                  <button 
+                    key={r.id} 
+                    onMouseDown={(e) => { e.preventDefault(); insertMention(r.name); }}
+                    className={`w-full flex items-center px-3 py-2 text-left ${i === mentionIndex ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                  >
+                    <AvatarDisplay avatar={r.avatar} size="w-7 h-7" fallbackIcon={r.icon} />
+                    <span className="ml-2 text-sm font-bold dark:text-white truncate">@{r.name}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            {incomingForward && (
+              <div className="flex items-center space-x-1 mb-1">
+                <i className="fa-solid fa-share text-[10px] text-blue-500"></i>
+                <span className="flex-1 text-[10px] font-bold text-gray-500 uppercase tracking-tight truncate">Forwarding {incomingForward.messages.length} message{incomingForward.messages.length === 1 ? '' : 's'} from {incomingForward.fromName}</span>
+                <button onClick={onClearForward} className="text-[10px] font-bold text-blue-500 uppercase tracking-tight active:opacity-50">Cancel</button>
+              </div>
+            )}
+            {editingMessageId && (
+              <div className="flex items-center space-x-1 mb-1">
+                <i className="fa-solid fa-pen text-[10px] text-blue-500"></i>
+                <span className="flex-1 text-[10px] font-bold text-gray-500 uppercase tracking-tight">Editing message</span>
+                <button onClick={handleCancelEdit} className="text-[10px] font-bold text-blue-500 uppercase tracking-tight active:opacity-50">Cancel</button>
+              </div>
+            )}
             {selectedAuthorId !== 'user' && (
               <div className="flex items-center space-x-1 mb-1">
                 <i className="fa-solid fa-wand-magic-sparkles text-[10px] text-orange-500"></i>
                 <span className="text-[10px] font-bold text-gray-500 uppercase tracking-tight">{responders.find(r=>r.id===selectedAuthorId)?.name} focus</span>
               </div>
             )}
+            {pendingAttachments.length > 0 && (
+              <div className="pt-1.5 pb-1">
+                <AttachmentList attachments={pendingAttachments} onRemove={(id) => setPendingAttachments(prev => prev.filter(a => a.id !== id))} />
+              </div>
+            )}
             <textarea 
               ref={inputRef} 
               value={inputText} 
-              onChange={(e) => setInputText(e.target.value)} 
-              onKeyDown={(e) => { if(e.key==='Enter' && !e.shiftKey){e.preventDefault(); handleSend();} }} 
+              onChange={(e) => handleComposerChange(e.target.value, e.target.selectionStart)} 
+              onKeyDown={handleComposerKeyDown} 
+              onPaste={handleComposerPaste}
+              onBlur={() => setTimeout(() => setMentionQuery(null), 150)}
               placeholder={senderPersonaId === 'user' ? (selectedAuthorId === 'user' ? "Type message..." : "Prompt AI...") : `Ghostwrite as ${currentSender.name}...`}
               className="bg-transparent w-full text-[16px] dark:text-white outline-none resize-none max-h-32 py-1" 
               rows={1} 
             />
+            {contextPlan.totalCount > 0 && (
+              <div 
+                title={`~${contextPlan.usedTokens.toLocaleString()} of ${contextPlan.budgetTokens.toLocaleString()} tokens`}
+                className={`self-end text-[9px] font-bold uppercase tracking-tight ${contextPlan.messages.length < contextPlan.totalCount ? 'text-orange-500' : 'text-gray-400'}`}
+              >
+                <i className="fa-solid fa-layer-group mr-1"></i>{contextPlan.messages.length}/{contextPlan.totalCount} in context{chat.memoryMode && chat.summary ? ' + memory' : ''}
+              </div>
+            )}
           </div>
-          <button onClick={handleSend} className={`w-11 h-11 rounded-full flex items-center justify-center transition-all duration-300 ${(inputText.trim() || selectedAuthorId !== 'user') ? (senderPersonaId !== 'user' ? 'bg-purple-600 text-white shadow-lg' : selectedAuthorId === 'user' ? 'bg-blue-500 text-white scale-100' : 'bg-orange-500 text-white scale-105 shadow-lg shadow-orange-500/20') : 'bg-gray-200 dark:bg-gray-800 text-gray-400 scale-90'}`}>
-            <i className={`fa-solid ${senderPersonaId !== 'user' ? 'fa-ghost' : selectedAuthorId === 'user' ? 'fa-arrow-up' : 'fa-wand-magic-sparkles'} text-lg`}></i>
-          </button>
+          {!isTyping && !inputText.trim() && pendingAttachments.length === 0 && selectedAuthorId === 'user' ? (
+            <button
+              onPointerDown={(e) => { e.preventDefault(); startDictation(); }}
+              onPointerUp={stopDictation}
+              onPointerLeave={stopDictation}
+              title="Hold to talk"
+              className={`w-11 h-11 rounded-full flex items-center justify-center transition-all duration-300 select-none touch-none ${isDictating ? 'bg-red-500 text-white scale-110 shadow-lg shadow-red-500/30 animate-pulse' : 'bg-gray-200 dark:bg-gray-800 text-gray-500'}`}
+            >
+              <i className="fa-solid fa-microphone text-lg"></i>
+            </button>
+          ) : isTyping ? (
+            <button onClick={handleStop} className="w-11 h-11 rounded-full flex items-center justify-center transition-all duration-300 bg-red-500 text-white shadow-lg shadow-red-500/20 active:scale-90">
+              <i className="fa-solid fa-stop text-lg"></i>
+            </button>
+          ) : (
+            <button onClick={handleSend} className={`w-11 h-11 rounded-full flex items-center justify-center transition-all duration-300 ${(inputText.trim() || pendingAttachments.length > 0 || selectedAuthorId !== 'user') ? (senderPersonaId !== 'user' ? 'bg-purple-600 text-white shadow-lg' : selectedAuthorId === 'user' ? 'bg-blue-500 text-white scale-100' : 'bg-orange-500 text-white scale-105 shadow-lg shadow-orange-500/20') : 'bg-gray-200 dark:bg-gray-800 text-gray-400 scale-90'}`}>
+              <i className={`fa-solid ${senderPersonaId !== 'user' ? 'fa-ghost' : selectedAuthorId === 'user' ? 'fa-arrow-up' : 'fa-wand-magic-sparkles'} text-lg`}></i>
+            </button>
+          )}
         </div>
       </footer>
+      )}
+
+      {threadTree && (
+        <ThreadTree
+          tree={threadTree}
+          currentChatId={chat.id}
+          onJump={(id) => { setShowThreadTree(false); if (id !== chat.id) onJumpToChat?.(id); }}
+          onMergeBack={async (id) => { await onMergeBack?.(id); }}
+          onClose={() => setShowThreadTree(false)}
+        />
+      )}
+
+      {isExporting && (
+        // An unsaved branch draft isn't in allChats yet
+        <ExportSheet allChats={allChats.some(c => c.id === chat.id) ? allChats : [...allChats, chat]} initialIds={[chat.id]} globalSystemPrompt={settings.globalSystemPrompt} onClose={() => setIsExporting(false)} />
+      )}
+
+      {/* FORWARD TARGET MODAL */}
+      {isPickingForwardTarget && (
+        <div className="absolute inset-0 z-[70] bg-black/60 backdrop-blur-sm flex items-end justify-center" onClick={() => setIsPickingForwardTarget(false)}>
+          <div className="w-full max-w-md bg-[#1c1c1e] rounded-t-[20px] shadow-2xl overflow-hidden flex flex-col max-h-[85%] modal-animate safe-bottom" onClick={e => e.stopPropagation()}>
+            <div className="px-4 pt-3 pb-2 flex justify-between items-center border-b border-gray-800 bg-[#1c1c1e] sticky top-0 z-10">
+              <span className="text-white font-bold text-lg">Forward to...</span>
+              <button onClick={() => setIsPickingForwardTarget(false)} className="w-8 h-8 rounded-full bg-[#2c2c2e] flex items-center justify-center text-gray-400 hover:text-white hover:bg-[#3a3a3c] transition-colors">
+                <i className="fa-solid fa-xmark"></i>
+              </button>
+            </div>
+
+            <div className="px-4 py-3 bg-[#1c1c1e]">
+              <div className="bg-[#2c2c2e] rounded-xl flex items-center px-3 py-2">
+                 <i className="fa-solid fa-magnifying-glass text-gray-500 text-sm mr-2"></i>
+                 <input 
+                   type="text" 
+                   value={forwardSearch}
+                   onChange={(e) => setForwardSearch(e.target.value)}
+                   placeholder="Search chats..." 
+                   className="bg-transparent text-[15px] text-white w-full outline-none placeholder-gray-500"
+                 />
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-4 pb-6">
+               <div className="flex flex-col">
+                  {forwardTargets.map(c => (
+                    <div 
+                      key={c.id} 
+                      onClick={() => handleForwardTo(c.id)}
+                      className="flex items-center py-3 border-b border-gray-800 cursor-pointer group"
+                    >
+                       <AvatarDisplay avatar={c.avatar} size="w-10 h-10" fallbackIcon={c.isGroup ? 'fa-users' : undefined} />
+                       <div className="ml-3 flex-1 min-w-0 pr-2">
+                          <div className="text-white font-semibold text-[16px] truncate">{c.name}</div>
+                          <div className="text-gray-500 text-[13px] truncate">{c.isGroup ? `${c.participantIds?.length || 0} participants` : c.modelName}</div>
+                       </div>
+                    </div>
+                  ))}
+                  {forwardTargets.length === 0 && <div className="py-8 text-center text-sm text-gray-500">No chats found.</div>}
+               </div>
+            </div>
+          </div>
+        </div>
+      )}
 
       {/* SENDER SELECTION MODAL */}
       {isPickingSender && (
@@ -554,14 +1214,38 @@ const ChatWindow: React.FC<Props> = ({
              <section className="space-y-1">
                 <label className="px-4 text-[10px] font-bold text-gray-400 uppercase tracking-widest">Engine</label>
                 <div className="bg-white dark:bg-ios-darkSurface rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm divide-y dark:divide-gray-800">
-                  <div className="p-4 flex items-center justify-between"><span className="text-sm dark:text-gray-300">Provider</span><select value={editProvider} onChange={(e) => { const p = e.target.value as ModelProvider; setEditProvider(p); setEditModel(MODEL_OPTIONS[p][0]); }} className="text-sm font-bold text-blue-500 bg-transparent outline-none appearance-none cursor-pointer text-right"><option value="gemini">GEMINI</option><option value="openai">OPENAI</option><option value="deepseek">DEEPSEEK</option></select></div>
-                  <div className="p-4 flex items-center justify-between"><span className="text-sm dark:text-gray-300">Model</span><select value={editModel} onChange={(e) => setEditModel(e.target.value)} className="text-sm font-bold text-blue-500 bg-transparent outline-none appearance-none cursor-pointer text-right">{MODEL_OPTIONS[editProvider].map(m => (<option key={m} value={m}>{m}</option>))}</select></div>
+                  <div className="p-4 flex items-center justify-between"><span className="text-sm dark:text-gray-300">Provider</span><select value={editProvider} onChange={(e) => { const p = e.target.value as ModelProvider; setEditProvider(p); setEditModel(getProviderModels(p)[0]); }} className="text-sm font-bold text-blue-500 bg-transparent outline-none appearance-none cursor-pointer text-right">{listProviders().map(p => (<option key={p.id} value={p.id}>{p.label.toUpperCase()}</option>))}</select></div>
+                  <div className="p-4 flex items-center justify-between"><span className="text-sm dark:text-gray-300">Model</span><select value={editModel} onChange={(e) => setEditModel(e.target.value)} className="text-sm font-bold text-blue-500 bg-transparent outline-none appearance-none cursor-pointer text-right">{getProviderModels(editProvider).map(m => (<option key={m} value={m}>{m}</option>))}</select></div>
                 </div>
              </section>
+             {!chat.isGroup && voices.length > 0 && (
              <section className="space-y-1">
-                <div className="flex justify-between px-4 items-center"><label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Instructions</label><button onClick={handleImprovePrompt} className="text-[10px] font-black text-purple-500 uppercase tracking-tight"><i className="fa-solid fa-wand-magic-sparkles mr-1"></i>Improve</button></div>
+                <label className="px-4 text-[10px] font-bold text-gray-400 uppercase tracking-widest">Voice</label>
+                <div className="bg-white dark:bg-ios-darkSurface rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm divide-y dark:divide-gray-800">
+                  <div className="p-4 flex items-center justify-between">
+                    <span className="text-sm dark:text-gray-300">Reads replies as</span>
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <select value={editVoice} onChange={(e) => setEditVoice(e.target.value)} className="text-sm font-bold text-blue-500 bg-transparent outline-none appearance-none cursor-pointer text-right max-w-[180px] truncate">
+                        <option value="">System default</option>
+                        {voices.map(v => (<option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>))}
+                      </select>
+                      <button onClick={() => { stopSpeaking(); speak(`Hi, I'm ${editName}.`, editVoice || undefined); }} className="text-blue-500 active:opacity-50 shrink-0" title="Preview"><i className="fa-solid fa-play text-xs"></i></button>
+                    </div>
+                  </div>
+                </div>
+             </section>
+             )}
+             {!chat.isGroup && (
+             <section className="space-y-1">
+                <label className="px-4 text-[10px] font-bold text-gray-400 uppercase tracking-widest">Fallback Chain</label>
+                <FallbackChainSettings routes={editFallbacks} onChange={setEditFallbacks} />
+             </section>
+             )}
+             <section className="space-y-1">
+                <div className="flex justify-between px-4 items-center"><label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">{chat.isGroup ? 'Topic & Rules (shared with participants)' : 'Instructions'}</label><button onClick={handleImprovePrompt} className="text-[10px] font-black text-purple-500 uppercase tracking-tight"><i className="fa-solid fa-wand-magic-sparkles mr-1"></i>Improve</button></div>
                 <div className="bg-white dark:bg-ios-darkSurface rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm"><textarea value={editPrompt} onChange={e => setEditPrompt(e.target.value)} className="w-full px-4 py-4 text-sm outline-none bg-transparent min-h-[140px] resize-none dark:text-white leading-relaxed" /></div>
              </section>
+             {getModelCapabilities(editProvider, editModel).temperature && (
              <section className="space-y-1">
                 <label className="px-4 text-[10px] font-bold text-gray-400 uppercase tracking-widest">Creativity (Temp)</label>
                 <div className="bg-white dark:bg-ios-darkSurface p-5 rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm">
@@ -569,14 +1253,92 @@ const ChatWindow: React.FC<Props> = ({
                   <input type="range" min="0" max="1.5" step="0.05" value={editTemp} onChange={(e) => setEditTemp(parseFloat(e.target.value))} className="w-full accent-blue-500" />
                 </div>
              </section>
+             )}
+             <section className="space-y-1">
+                <div className="flex justify-between px-4 items-center"><label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Memory</label>{editSummary && <button onClick={() => { if (confirm("Reset the conversation summary?")) setEditSummary(''); }} className="text-[10px] font-black text-red-500 uppercase tracking-tight"><i className="fa-solid fa-rotate-left mr-1"></i>Reset</button>}</div>
+                <div className="bg-white dark:bg-ios-darkSurface rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm divide-y dark:divide-gray-800">
+                  <div className="p-4 flex items-center justify-between"><span className="text-sm dark:text-gray-300">Summarize old messages</span><input type="checkbox" checked={editMemoryMode} onChange={e => setEditMemoryMode(e.target.checked)} className="w-5 h-5 accent-blue-500" /></div>
+                  {(editMemoryMode || editSummary) && (
+                    <textarea value={editSummary} onChange={e => setEditSummary(e.target.value)} placeholder="Nothing summarized yet. Messages that fall out of the context window will be condensed here." className="w-full px-4 py-4 text-sm outline-none bg-transparent min-h-[120px] resize-none dark:text-white leading-relaxed placeholder:text-gray-400" />
+                  )}
+                </div>
+             </section>
              <section className="space-y-2">
                 <div className="flex justify-between items-center px-4"><label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Active Entities</label><button onClick={() => setIsAddingParticipant(true)} className="text-[10px] font-black text-blue-500 uppercase">Summon</button></div>
                 <div className="bg-white dark:bg-ios-darkSurface rounded-2xl border border-gray-100 dark:border-gray-800 divide-y dark:divide-gray-800 overflow-hidden">
                     <div className="flex items-center px-4 py-3"><AvatarDisplay avatar={chat.avatar} size="w-8 h-8" isActive={true} /><div className="ml-3 flex-1"><div className="text-xs font-bold dark:text-white">{chat.name} <span className="text-[8px] text-blue-500 ml-1 font-black">LEAD</span></div><div className="text-[9px] text-gray-400 uppercase">{chat.provider} • {chat.modelName}</div></div><i className="fa-solid fa-crown text-[10px] text-yellow-500"></i></div>
-                    {participants.map(p => (<div key={p.id} className="flex items-center px-4 py-3"><AvatarDisplay avatar={p.avatar} size="w-8 h-8" isActive={true} color="orange" /><div className="ml-3 flex-1"><div className="text-xs font-bold dark:text-white">{p.name}</div><div className="text-[9px] text-gray-400 uppercase">{p.provider}</div></div><button onClick={() => updateChat({ participantIds: (chat.participantIds || []).filter(id => id !== p.id) })} className="text-red-500 p-2"><i className="fa-solid fa-circle-minus"></i></button></div>))}
+                    {chat.isGroup && <datalist id="arena-role-presets">{ARENA_ROLE_PRESETS.map(r => <option key={r} value={r} />)}</datalist>}
+                    {participants.map(p => (<div key={p.id} className="flex items-center px-4 py-3"><AvatarDisplay avatar={p.avatar} size="w-8 h-8" isActive={true} color="orange" /><div className="ml-3 flex-1 min-w-0"><div className="text-xs font-bold dark:text-white">{p.name}</div><div className="text-[9px] text-gray-400 uppercase">{p.provider}</div>{chat.isGroup && <input list="arena-role-presets" value={editRoles[p.id] || ''} onChange={e => setEditRoles(r => ({ ...r, [p.id]: e.target.value }))} placeholder="Role in this arena (optional)" className="mt-1.5 w-full text-[11px] bg-gray-50 dark:bg-ios-darkBg rounded-lg px-2 py-1.5 outline-none dark:text-white placeholder:text-gray-400" />}</div><button onClick={() => updateChat({ participantIds: (chat.participantIds || []).filter(id => id !== p.id) })} className="text-red-500 p-2"><i className="fa-solid fa-circle-minus"></i></button></div>))}
+                </div>
+             </section>
+             {participants.length > 0 && (
+             <section className="space-y-1">
+                <label className="px-4 text-[10px] font-bold text-gray-400 uppercase tracking-widest">Turn Order</label>
+                <TurnStrategySettings
+                  strategy={editTurnStrategy}
+                  moderatorId={editModeratorId}
+                  weights={editTurnWeights}
+                  participants={participants}
+                  moderatorCandidates={allChats.filter(c => !c.isGroup)}
+                  onChange={(updates) => {
+                    if (updates.turnStrategy) setEditTurnStrategy(updates.turnStrategy);
+                    if ('moderatorId' in updates) setEditModeratorId(updates.moderatorId);
+                    if (updates.turnWeights) setEditTurnWeights(updates.turnWeights);
+                  }}
+                />
+             </section>
+             )}
+             {participants.length > 0 && (
+             <section className="space-y-1">
+                <label className="px-4 text-[10px] font-bold text-gray-400 uppercase tracking-widest">Auto Flow Limits</label>
+                <div className="bg-white dark:bg-ios-darkSurface rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm divide-y dark:divide-gray-800">
+                  {([
+                    { key: 'maxTurns', label: 'Max turns', placeholder: 'No limit' },
+                    { key: 'maxTokens', label: 'Max total tokens', placeholder: 'No limit' },
+                    { key: 'maxMinutes', label: 'Time limit, min', placeholder: 'No limit' }
+                  ] as const).map(field => (
+                    <div key={field.key} className="p-4 flex items-center justify-between">
+                      <span className="text-sm dark:text-gray-300">{field.label}</span>
+                      <input type="number" min={1} value={editRunSettings[field.key] ?? ''} onChange={e => setEditRunSettings(s => ({ ...s, [field.key]: parseInt(e.target.value, 10) || undefined }))} placeholder={field.placeholder} className="w-28 text-sm font-bold text-blue-500 bg-transparent outline-none text-right placeholder:text-gray-300 placeholder:font-normal" />
+                    </div>
+                  ))}
+                  <div className="p-4 flex items-center justify-between">
+                    <span className="text-sm dark:text-gray-300">Spend limit, $</span>
+                    <input type="number" min={0} step={0.01} value={editRunSettings.maxSpend ?? ''} onChange={e => setEditRunSettings(s => ({ ...s, maxSpend: parseFloat(e.target.value) || undefined }))} placeholder="No limit" className="w-28 text-sm font-bold text-blue-500 bg-transparent outline-none text-right placeholder:text-gray-300 placeholder:font-normal" />
+                  </div>
+                  <div className="p-4 flex items-center justify-between">
+                    <span className="text-sm dark:text-gray-300">Delay between turns, s</span>
+                    <input type="number" min={0} step={0.5} value={editRunSettings.turnDelayMs !== undefined ? editRunSettings.turnDelayMs / 1000 : ''} onChange={e => setEditRunSettings(s => ({ ...s, turnDelayMs: e.target.value === '' ? undefined : Math.max(parseFloat(e.target.value) || 0, 0) * 1000 }))} placeholder={String(DEFAULT_TURN_DELAY_MS / 1000)} className="w-28 text-sm font-bold text-blue-500 bg-transparent outline-none text-right placeholder:text-gray-300 placeholder:font-normal" />
+                  </div>
+                  <div className="p-4 flex items-center justify-between">
+                    <span className="text-sm dark:text-gray-300">Stop phrase</span>
+                    <input type="text" value={editRunSettings.stopPhrase || ''} onChange={e => setEditRunSettings(s => ({ ...s, stopPhrase: e.target.value || undefined }))} placeholder="CONSENSUS REACHED" className="w-44 text-sm font-bold text-blue-500 bg-transparent outline-none text-right placeholder:text-gray-300 placeholder:font-normal" />
+                  </div>
+                </div>
+             </section>
+             )}
+             {settings.semanticSearch && (
+             <section className="space-y-1">
+                <label className="px-4 text-[10px] font-bold text-gray-400 uppercase tracking-widest">Related Chats</label>
+                <div className="bg-white dark:bg-ios-darkSurface rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm divide-y dark:divide-gray-800 overflow-hidden">
+                  {relatedChats === null && <div className="p-4 text-center text-xs text-gray-400"><i className="fa-solid fa-circle-notch fa-spin mr-1"></i>Finding similar conversations...</div>}
+                  {relatedChats?.length === 0 && <div className="p-4 text-center text-xs text-gray-400">Nothing similar yet.</div>}
+                  {relatedChats?.map(r => {
+                    const related = allChats.find(c => c.id === r.chatId);
+                    if (!related) return null;
+                    return (
+                      <div key={r.chatId} onClick={() => { setShowProfile(false); onJumpToChat?.(r.chatId); }} className="flex items-center px-4 py-3 cursor-pointer active:bg-gray-50 dark:active:bg-gray-800/50">
+                        <AvatarDisplay avatar={related.avatar} size="w-8 h-8" fallbackIcon={related.isGroup ? 'fa-users' : undefined} />
+                        <div className="ml-3 flex-1 min-w-0"><div className="text-xs font-bold dark:text-white truncate">{related.name}</div><div className="text-[9px] text-gray-400 truncate">{related.lastMessage}</div></div>
+                        <span className="text-[10px] font-black text-purple-500 ml-2">{Math.round(Math.max(r.score, 0) * 100)}%</span>
+                      </div>
+                    );
+                  })}
                 </div>
              </section>
+             )}
              <div className="bg-white dark:bg-ios-darkSurface rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm divide-y dark:divide-gray-800 overflow-hidden">
+                <button onClick={() => setIsExporting(true)} className="w-full py-4 text-sm font-bold text-blue-500 active:bg-gray-50">Export Conversation</button>
                 <button onClick={onDuplicateChat} className="w-full py-4 text-sm font-bold text-blue-500 active:bg-gray-50">Duplicate Thread</button>
                 <button onClick={()=>{if(confirm("Archive thread?")) onArchiveChat();}} className="w-full py-4 text-sm font-bold text-gray-500 active:bg-gray-50">Archive Conversation</button>
                 <button onClick={()=>{if(confirm("Delete thread?")) onDeleteChat();}} className="w-full py-4 text-sm font-bold text-red-500 active:bg-red-50">Destroy Thread</button>
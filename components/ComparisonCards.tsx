@@ -0,0 +1,52 @@
+
+import React from 'react';
+import { ComparisonEntry } from '../types';
+import { ERROR_KIND_META } from '../constants';
+import { estimateTokens } from '../services/providers/common';
+import MessageContent from './MessageContent';
+
+interface Props {
+  entries: ComparisonEntry[];
+  onPick: (index: number) => void;
+  disabled?: boolean;
+}
+
+const formatLatency = (ms: number) => ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+const ComparisonCards: React.FC<Props> = ({ entries, onPick, disabled = false }) => {
+  const fastest = Math.min(...entries.filter(e => !e.isError).map(e => e.latencyMs));
+
+  return (
+    <div className="w-full">
+      <div className="px-2 mb-2 text-[9px] font-black uppercase tracking-widest text-gray-400 text-center">
+        <i className="fa-solid fa-scale-balanced mr-1"></i>Compare • pick a winner to continue
+      </div>
+      <div className="flex space-x-3 overflow-x-auto no-scrollbar snap-x snap-mandatory pb-1">
+        {entries.map((entry, i) => (
+          <div key={entry.authorId} className="snap-center shrink-0 w-[85%] sm:w-auto sm:flex-1 sm:min-w-[240px] flex flex-col bg-white dark:bg-ios-darkSurface rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm">
+            <div className="px-4 pt-3 pb-2 flex items-center justify-between border-b border-gray-50 dark:border-gray-800">
+              <span className="text-[10px] font-black uppercase text-gray-500 dark:text-gray-400 truncate mr-2">{entry.authorName}</span>
+              <span className="text-[9px] font-bold text-gray-400 shrink-0">{i + 1} / {entries.length}</span>
+            </div>
+            <div className={`px-4 py-3 text-[14px] flex-1 max-h-80 overflow-y-auto selectable-text ${entry.isError ? 'text-red-500' : 'dark:text-gray-100'}`}>
+              {entry.isError ? <><i className={`fa-solid ${ERROR_KIND_META[entry.errorKind || 'unknown'].icon} mr-1.5 opacity-70`}></i>{entry.text}</> : <MessageContent text={entry.text} highlight="" isActive={false} />}
+            </div>
+            <div className="px-4 py-2 flex items-center justify-between border-t border-gray-50 dark:border-gray-800">
+              <div className="text-[9px] font-bold text-gray-400 uppercase tracking-tight space-x-2">
+                <span className={entry.latencyMs === fastest ? 'text-green-500' : ''}><i className="fa-solid fa-stopwatch mr-0.5"></i>{formatLatency(entry.latencyMs)}</span>
+                {!entry.isError && <span>{entry.text.length.toLocaleString()} chars • ~{estimateTokens(entry.text).toLocaleString()} tok</span>}
+              </div>
+              {!entry.isError && (
+                <button onClick={() => onPick(i)} disabled={disabled} className="text-[10px] font-black uppercase text-blue-500 active:opacity-50 disabled:opacity-30">
+                  <i className="fa-solid fa-trophy mr-1"></i>Pick
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonCards;
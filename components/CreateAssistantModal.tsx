@@ -1,8 +1,9 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Chat, ModelProvider, AppSettings } from '../types';
-import { MODEL_OPTIONS } from '../constants';
 import { getAIResponse, createRemoteAssistant } from '../services/aiService';
+import { recordUsage } from '../services/usageService';
+import { listProviders, getProviderModels, getModelCapabilities, resolveApiKey } from '../services/providers';
 
 interface Props {
   onClose: () => void;
@@ -15,7 +16,7 @@ const CreateAssistantModal: React.FC<Props> = ({ onClose, onCreate, settings })
   const [prompt, setPrompt] = useState('');
   const [avatar, setAvatar] = useState(''); 
   const [provider, setProvider] = useState<ModelProvider>(settings.defaultProvider);
-  const [model, setModel] = useState(MODEL_OPTIONS[settings.defaultProvider][0]);
+  const [model, setModel] = useState(getProviderModels(settings.defaultProvider)[0]);
   const [temperature, setTemperature] = useState(0.7);
   const [tags, setTags] = useState<string[]>(['#custom']);
   const [newTagInput, setNewTagInput] = useState('');
@@ -33,7 +34,7 @@ const CreateAssistantModal: React.FC<Props> = ({ onClose, onCreate, settings })
     if (isImproving || !prompt.trim()) return;
     setIsImproving(true);
     try {
-      const improved = await getAIResponse(
+      const { text: improved, usage } = await getAIResponse(
         'gemini', 
         'gemini-3-flash-preview', 
         "You are an expert prompt engineer. Refine the user's instructions into a professional, structured system prompt for an AI assistant. Output ONLY the refined prompt text without any explanations or formatting.", 
@@ -41,6 +42,8 @@ const CreateAssistantModal: React.FC<Props> = ({ onClose, onCreate, settings })
         '', 
         0.8
       );
+      // The assistant doesn't exist yet, so the spend is filed under the name being typed
+      recordUsage(usage, { kind: 'prompt', assistantId: 'new-assistant', assistantName: name.trim() || 'New assistant' });
       setPrompt(improved.trim());
     } catch (e) {
       console.error("Failed to improve prompt:", e);
@@ -69,7 +72,7 @@ const CreateAssistantModal: React.FC<Props> = ({ onClose, onCreate, settings })
     let remoteId = null;
 
     try {
-      const apiKey = provider === 'openai' ? settings.openaiKey : provider === 'deepseek' ? settings.deepseekKey : '';
+      const apiKey = resolveApiKey(provider, settings.apiKeys);
       
       if (provider === 'openai' && apiKey) {
         const result = await createRemoteAssistant(provider, name, prompt, model, apiKey);
@@ -212,13 +215,13 @@ const CreateAssistantModal: React.FC<Props> = ({ onClose, onCreate, settings })
                 onChange={(e) => {
                   const p = e.target.value as ModelProvider;
                   setProvider(p);
-                  setModel(MODEL_OPTIONS[p][0]);
+                  setModel(getProviderModels(p)[0]);
                 }}
                 className="text-sm font-bold text-blue-500 bg-transparent outline-none appearance-none cursor-pointer text-right"
               >
-                <option value="gemini">GEMINI</option>
-                <option value="openai">OPENAI</option>
-                <option value="deepseek">DEEPSEEK</option>
+                {listProviders().map(p => (
+                  <option key={p.id} value={p.id}>{p.label.toUpperCase()}</option>
+                ))}
               </select>
             </div>
             <div className="p-4 flex items-center justify-between">
@@ -228,7 +231,7 @@ const CreateAssistantModal: React.FC<Props> = ({ onClose, onCreate, settings })
                 onChange={(e) => setModel(e.target.value)}
                 className="text-sm font-bold text-blue-500 bg-transparent outline-none appearance-none cursor-pointer text-right"
               >
-                {MODEL_OPTIONS[provider].map(m => (
+                {getProviderModels(provider).map(m => (
                   <option key={m} value={m}>{m}</option>
                 ))}
               </select>
@@ -261,6 +264,7 @@ const CreateAssistantModal: React.FC<Props> = ({ onClose, onCreate, settings })
         </section>
 
         {/* Creativity Control */}
+        {getModelCapabilities(provider, model).temperature && (
         <section className="space-y-1">
           <label className="px-4 text-[10px] font-bold text-gray-400 uppercase tracking-widest">Temperature</label>
           <div className="bg-white dark:bg-ios-darkSurface p-5 rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm">
@@ -282,6 +286,7 @@ const CreateAssistantModal: React.FC<Props> = ({ onClose, onCreate, settings })
             </div>
           </div>
         </section>
+        )}
 
         {provider === 'openai' && (
           <div className="bg-blue-50/50 dark:bg-blue-900/10 border border-blue-100 dark:border-blue-900/20 rounded-2xl p-4 flex items-start space-x-3">
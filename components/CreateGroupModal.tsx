@@ -1,6 +1,7 @@
 
 import React, { useState } from 'react';
-import { Chat, TagFolder } from '../types';
+import { Chat, TagFolder, TurnStrategy } from '../types';
+import TurnStrategySettings from './TurnStrategySettings';
 
 interface Props {
   onClose: () => void;
@@ -12,6 +13,9 @@ const CreateGroupModal: React.FC<Props> = ({ onClose, onCreate, availableAssista
   const [name, setName] = useState('');
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [topic, setTopic] = useState('');
+  const [turnStrategy, setTurnStrategy] = useState<TurnStrategy>('round-robin');
+  const [moderatorId, setModeratorId] = useState<string | undefined>(undefined);
+  const [turnWeights, setTurnWeights] = useState<Record<string, number>>({});
 
   const toggleAssistant = (id: string) => {
     setSelectedIds(prev => 
@@ -35,7 +39,10 @@ const CreateGroupModal: React.FC<Props> = ({ onClose, onCreate, availableAssista
       lastMessage: "Group chat created.",
       lastTimestamp: Date.now(),
       isGroup: true,
-      participantIds: selectedIds
+      participantIds: selectedIds,
+      turnStrategy,
+      moderatorId: turnStrategy === 'moderator' ? moderatorId : undefined,
+      turnWeights: turnStrategy === 'weighted' ? turnWeights : undefined
     };
 
     onCreate(newGroup);
@@ -95,6 +102,22 @@ const CreateGroupModal: React.FC<Props> = ({ onClose, onCreate, availableAssista
             ))}
           </div>
         </section>
+
+        <section className="space-y-2">
+          <label className="px-4 text-[10px] font-bold text-gray-400 uppercase tracking-widest">Turn Order</label>
+          <TurnStrategySettings
+            strategy={turnStrategy}
+            moderatorId={moderatorId}
+            weights={turnWeights}
+            participants={availableAssistants.filter(a => selectedIds.includes(a.id))}
+            moderatorCandidates={availableAssistants.filter(a => !a.isGroup)}
+            onChange={(updates) => {
+              if (updates.turnStrategy) setTurnStrategy(updates.turnStrategy);
+              if ('moderatorId' in updates) setModeratorId(updates.moderatorId);
+              if (updates.turnWeights) setTurnWeights(updates.turnWeights);
+            }}
+          />
+        </section>
       </div>
     </div>
   );
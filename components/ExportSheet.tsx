@@ -0,0 +1,101 @@
+
+import React, { useMemo, useState } from 'react';
+import { Chat } from '../types';
+import { EXPORT_FORMATS, ExportFormat, exportChats, hasSubThreads } from '../services/exportService';
+
+interface Props {
+  allChats: Chat[];
+  initialIds: string[];
+  /** Global instruction, part of the system prompt in training examples */
+  globalSystemPrompt: string;
+  /** Show the chat checklist for multi-select export */
+  selectable?: boolean;
+  onClose: () => void;
+}
+
+const ExportSheet: React.FC<Props> = ({ allChats, initialIds, globalSystemPrompt, selectable = false, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [selectedIds, setSelectedIds] = useState<string[]>(initialIds);
+  const [includeThreads, setIncludeThreads] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Sub-threads come along with their parents, so only top-level chats are listed
+  const listedChats = useMemo(() => allChats.filter(c => !c.parentId).sort((a, b) => (b.lastTimestamp || 0) - (a.lastTimestamp || 0)), [allChats]);
+  const canIncludeThreads = hasSubThreads(selectedIds, allChats);
+
+  const toggle = (id: string) => setSelectedIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+
+  const handleExport = () => {
+    const exported = exportChats(format, selectedIds, allChats, includeThreads && canIncludeThreads, globalSystemPrompt);
+    if (exported === 0) {
+      setError(format === 'jsonl' ? 'No assistant replies to build training examples from.' : 'Nothing to export.');
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/60 backdrop-blur-sm flex items-end justify-center" onClick={onClose}>
+      <div className="w-full max-w-md bg-[#1c1c1e] rounded-t-[20px] shadow-2xl overflow-hidden flex flex-col max-h-[85%] modal-animate safe-bottom" onClick={e => e.stopPropagation()}>
+        <div className="px-4 pt-3 pb-2 flex justify-between items-center border-b border-gray-800 bg-[#1c1c1e] sticky top-0 z-10">
+          <span className="text-white font-bold text-lg">Export</span>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-[#2c2c2e] flex items-center justify-center text-gray-400 hover:text-white hover:bg-[#3a3a3c] transition-colors">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-3 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {EXPORT_FORMATS.map(f => (
+              <button
+                key={f.id}
+                onClick={() => { setFormat(f.id); setError(null); }}
+                className={`p-3 rounded-xl text-left border transition-colors ${format === f.id ? 'border-blue-500 bg-blue-500/10' : 'border-transparent bg-[#2c2c2e]'}`}
+              >
+                <div className="text-white text-sm font-bold"><i className={`${f.icon} w-5 text-blue-400`}></i>{f.label}</div>
+                <div className="text-gray-500 text-[11px] leading-tight mt-1">{f.hint}</div>
+              </button>
+            ))}
+          </div>
+
+          {canIncludeThreads && (
+            <label className="flex items-center justify-between bg-[#2c2c2e] rounded-xl px-3 py-3 cursor-pointer">
+              <span className="text-white text-sm"><i className="fa-solid fa-code-branch text-purple-400 w-5"></i>Include sub-threads</span>
+              <input type="checkbox" checked={includeThreads} onChange={e => setIncludeThreads(e.target.checked)} className="w-5 h-5 accent-blue-500" />
+            </label>
+          )}
+
+          {selectable && (
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">{selectedIds.length} selected</span>
+                <button onClick={() => setSelectedIds(selectedIds.length === listedChats.length ? [] : listedChats.map(c => c.id))} className="text-[11px] font-bold text-blue-400">
+                  {selectedIds.length === listedChats.length ? 'Select None' : 'Select All'}
+                </button>
+              </div>
+              {listedChats.map(c => (
+                <div key={c.id} onClick={() => toggle(c.id)} className="flex items-center py-2.5 border-b border-gray-800 cursor-pointer">
+                  <i className={`fa-${selectedIds.includes(c.id) ? 'solid fa-circle-check text-blue-500' : 'regular fa-circle text-gray-600'} text-lg mr-3`}></i>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-white text-[15px] font-semibold truncate">{c.name}</div>
+                    <div className="text-gray-500 text-[12px]">{c.messages.length} messages{c.tags.includes('#archived') ? ' • archived' : ''}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && <div className="text-xs text-red-400">{error}</div>}
+        </div>
+
+        <div className="px-4 pb-4 pt-2">
+          <button onClick={handleExport} disabled={selectedIds.length === 0} className="w-full py-3 rounded-xl bg-blue-500 text-white font-bold active:scale-[0.98] transition-transform disabled:opacity-40">
+            <i className="fa-solid fa-download mr-2"></i>Export{selectedIds.length > 1 ? ` ${selectedIds.length} chats` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportSheet;
@@ -0,0 +1,65 @@
+
+import React from 'react';
+import { ModelRoute, ModelProvider } from '../types';
+import { listProviders, getProviderModels } from '../services/providers';
+
+interface Props {
+  routes: ModelRoute[];
+  onChange: (routes: ModelRoute[]) => void;
+}
+
+const FallbackChainSettings: React.FC<Props> = ({ routes, onChange }) => {
+  const update = (index: number, route: ModelRoute) => onChange(routes.map((r, i) => i === index ? route : r));
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= routes.length) return;
+    const next = [...routes];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const add = () => {
+    const provider = listProviders()[0];
+    if (provider) onChange([...routes, { provider: provider.id, modelName: provider.models[0] }]);
+  };
+
+  return (
+    <div className="bg-white dark:bg-ios-darkSurface rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm divide-y dark:divide-gray-800">
+      {routes.map((route, i) => (
+        <div key={i} className="px-4 py-3 flex items-center">
+          <span className="text-[10px] font-black text-blue-500 bg-blue-50 dark:bg-blue-900/20 px-2 py-0.5 rounded mr-3">{i + 1}</span>
+          <div className="flex-1 min-w-0 flex flex-col">
+            <select
+              value={route.provider}
+              onChange={(e) => { const p = e.target.value as ModelProvider; update(i, { provider: p, modelName: getProviderModels(p)[0] }); }}
+              className="text-[10px] font-black uppercase text-gray-400 bg-transparent outline-none appearance-none cursor-pointer"
+            >
+              {listProviders().map(p => (<option key={p.id} value={p.id}>{p.label}</option>))}
+            </select>
+            <select
+              value={route.modelName}
+              onChange={(e) => update(i, { ...route, modelName: e.target.value })}
+              className="text-sm font-bold text-blue-500 bg-transparent outline-none appearance-none cursor-pointer truncate"
+            >
+              {getProviderModels(route.provider).map(m => (<option key={m} value={m}>{m}</option>))}
+            </select>
+          </div>
+          <div className="flex items-center space-x-1 shrink-0 text-gray-400">
+            <button onClick={() => move(i, -1)} disabled={i === 0} className="p-2 active:opacity-50 disabled:opacity-20"><i className="fa-solid fa-chevron-up text-xs"></i></button>
+            <button onClick={() => move(i, 1)} disabled={i === routes.length - 1} className="p-2 active:opacity-50 disabled:opacity-20"><i className="fa-solid fa-chevron-down text-xs"></i></button>
+            <button onClick={() => onChange(routes.filter((_, j) => j !== i))} className="p-2 text-red-500 active:opacity-50"><i className="fa-solid fa-xmark text-xs"></i></button>
+          </div>
+        </div>
+      ))}
+      {routes.length === 0 && (
+        <div className="p-4 text-center text-xs text-gray-400">If the main model is down or out of quota, these are tried in order.</div>
+      )}
+      <button onClick={add} className="w-full py-3 text-xs font-bold text-blue-500 active:bg-gray-50 dark:active:bg-gray-800/50">
+        <i className="fa-solid fa-plus mr-1"></i>Add Fallback
+      </button>
+    </div>
+  );
+};
+
+export default FallbackChainSettings;
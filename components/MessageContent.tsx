@@ -0,0 +1,340 @@
+
+import React, { useState, useMemo } from 'react';
+import katex from 'katex';
+import { mentionPattern } from '../services/arenaService';
+
+interface Props {
+  text: string;
+  highlight: string;
+  isActive: boolean;
+  isUser?: boolean;
+  /** Participant names to highlight when written as @Name */
+  mentions?: string[];
+}
+
+type Align = 'left' | 'center' | 'right' | null;
+
+type Block =
+  | { type: 'heading', level: number, text: string }
+  | { type: 'paragraph', text: string }
+  | { type: 'code', lang: string, code: string }
+  | { type: 'math', tex: string }
+  | { type: 'list', ordered: boolean, start: number, items: string[] }
+  | { type: 'quote', text: string }
+  | { type: 'table', header: string[], align: Align[], rows: string[][] }
+  | { type: 'hr' };
+
+const FENCE_RE = /^\s*(```|~~~)\s*([\w+#.-]*)\s*$/;
+const HEADING_RE = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR_RE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE_RE = /^\s{0,3}>\s?(.*)$/;
+const LIST_RE = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const splitTableRow = (line: string) => line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+const isMathStart = (line: string) => line.trim().startsWith('$$') || line.trim().startsWith('\\[');
+
+const startsBlock = (line: string, next?: string) =>
+  FENCE_RE.test(line) || HEADING_RE.test(line) || HR_RE.test(line) || QUOTE_RE.test(line) || LIST_RE.test(line) || isMathStart(line) ||
+  (line.includes('|') && next !== undefined && TABLE_SEPARATOR_RE.test(next) && next.includes('-'));
+
+/**
+ * Minimal GFM-style block parser. Tolerates unterminated fences and math so that
+ * partially streamed replies render without flicker.
+ */
+const parseBlocks = (text: string): Block[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) { i++; continue; }
+
+    const fence = line.match(FENCE_RE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) code.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', lang: fence[2].toLowerCase(), code: code.join('\n') });
+      continue;
+    }
+
+    if (isMathStart(line)) {
+      const trimmed = line.trim();
+      const close = trimmed.startsWith('$$') ? '$$' : '\\]';
+      const body = trimmed.slice(2);
+      if (body.trimEnd().endsWith(close)) {
+        blocks.push({ type: 'math', tex: body.trimEnd().slice(0, -2) });
+        i++;
+        continue;
+      }
+      const tex: string[] = [body];
+      i++;
+      while (i < lines.length && !lines[i].includes(close)) tex.push(lines[i++]);
+      if (i < lines.length) tex.push(lines[i].slice(0, lines[i].indexOf(close)));
+      i++;
+      blocks.push({ type: 'math', tex: tex.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (HR_RE.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_RE.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const header = splitTableRow(line);
+      const align: Align[] = splitTableRow(lines[i + 1]).map(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) rows.push(splitTableRow(lines[i++]));
+      blocks.push({ type: 'table', header, align, rows });
+      continue;
+    }
+
+    if (QUOTE_RE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_RE.test(lines[i])) quoted.push(lines[i++].match(QUOTE_RE)![1]);
+      blocks.push({ type: 'quote', text: quoted.join('\n') });
+      continue;
+    }
+
+    const listItem = line.match(LIST_RE);
+    if (listItem) {
+      const baseIndent = listItem[1].length;
+      const ordered = /\d/.test(listItem[2]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const current = lines[i];
+        const item = current.match(LIST_RE);
+        if (item && item[1].length <= baseIndent && /\d/.test(item[2]) === ordered) {
+          items.push(item[3]);
+          i++;
+        } else if (current.trim() && items.length > 0 && (/^\s/.test(current) || !startsBlock(current, lines[i + 1]))) {
+          // Continuation or nested content of the current item
+          items[items.length - 1] += '\n' + current.replace(new RegExp(`^\\s{0,${baseIndent + 4}}`), '');
+          i++;
+        } else if (!current.trim() && i + 1 < lines.length && /^\s+\S/.test(lines[i + 1])) {
+          items[items.length - 1] += '\n';
+          i++;
+        } else {
+          break;
+        }
+      }
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(listItem[2], 10) : 1, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i], lines[i + 1]))) paragraph.push(lines[i++]);
+    blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+  }
+
+  return blocks;
+};
+
+export const HighlightedText: React.FC<{ text: string, highlight: string, isActive: boolean }> = ({ text, highlight, isActive }) => {
+  if (!highlight.trim()) return <>{text}</>;
+  const parts = text.split(new RegExp(`(${escapeRegExp(highlight)})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, i) =>
+        part.toLowerCase() === highlight.toLowerCase() ? (
+          <mark key={i} className={`${isActive ? 'bg-yellow-400 text-black' : 'bg-yellow-200/50 dark:bg-yellow-500/30 dark:text-white'} rounded-sm px-0.5 transition-colors duration-200`}>
+            {part}
+          </mark>
+        ) : part
+      )}
+    </>
+  );
+};
+
+const MathView: React.FC<{ tex: string, display: boolean }> = ({ tex, display }) => {
+  const html = useMemo(() => katex.renderToString(tex, { displayMode: display, throwOnError: false }), [tex, display]);
+  return display
+    ? <div className="my-2 overflow-x-auto no-scrollbar" dangerouslySetInnerHTML={{ __html: html }} />
+    : <span dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+// Inline tokens: code, \( \) math, $ math, links, autolinks, bold, italic, strikethrough
+const INLINE_RE = /(`+)([\s\S]*?[^`])\1(?!`)|\\\(([\s\S]+?)\\\)|\$(?![\s$])([^$\n]+?)(?<!\s)\$(?!\d)|\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)|(https?:\/\/[^\s<)]+[^\s<).,;:!?'"])|\*\*([\s\S]+?)\*\*|__([\s\S]+?)__|~~([\s\S]+?)~~|\*(?![\s*])([^*]+?)\*|(?<!\w)_(?![\s_])([^_]+?)_(?!\w)/g;
+
+const HASH_COMMENT_LANGS = ['python', 'py', 'sh', 'bash', 'zsh', 'shell', 'ruby', 'rb', 'yaml', 'yml', 'toml', 'r', 'perl', 'dockerfile', 'makefile', 'ini', 'conf'];
+
+const CODE_KEYWORDS = new Set([
+  'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'def', 'default', 'defer', 'del', 'do', 'elif',
+  'else', 'enum', 'except', 'export', 'extends', 'false', 'False', 'final', 'finally', 'fn', 'for', 'from', 'func', 'function', 'go', 'if',
+  'impl', 'implements', 'import', 'in', 'instanceof', 'interface', 'is', 'lambda', 'let', 'match', 'mod', 'mut', 'new', 'nil', 'None', 'not',
+  'null', 'or', 'and', 'package', 'pass', 'private', 'protected', 'pub', 'public', 'raise', 'return', 'self', 'static', 'struct', 'super',
+  'switch', 'this', 'throw', 'throws', 'trait', 'true', 'True', 'try', 'type', 'typeof', 'undefined', 'use', 'var', 'void', 'while', 'with',
+  'yield', 'select', 'where', 'insert', 'update', 'delete', 'join', 'int', 'float', 'double', 'string', 'bool', 'boolean', 'char', 'long'
+]);
+
+const CODE_TOKEN_RE = /(\/\/[^\n]*|\/\*[\s\S]*?\*\/|<!--[\s\S]*?-->)|(#[^\n]*)|("(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`)|(\b\d+(?:\.\d+)?\b)|(\b[A-Za-z_]\w*\b)/g;
+
+const CodeBlock: React.FC<{ code: string, lang: string, highlight: string, isActive: boolean }> = ({ code, lang, highlight, isActive }) => {
+  const [copied, setCopied] = useState(false);
+
+  const tokens = useMemo(() => {
+    const hashComments = HASH_COMMENT_LANGS.includes(lang);
+    const out: { text: string, className?: string }[] = [];
+    let last = 0;
+    for (const match of code.matchAll(CODE_TOKEN_RE)) {
+      const index = match.index!;
+      if (index > last) out.push({ text: code.slice(last, index) });
+      let className: string | undefined;
+      if (match[1] || (match[2] && hashComments)) className = 'text-gray-500 italic';
+      else if (match[3]) className = 'text-green-400';
+      else if (match[4]) className = 'text-orange-300';
+      else if (match[5] && CODE_KEYWORDS.has(match[5])) className = 'text-pink-400 font-semibold';
+      out.push({ text: match[0], className });
+      last = index + match[0].length;
+    }
+    if (last < code.length) out.push({ text: code.slice(last) });
+    return out;
+  }, [code, lang]);
+
+  const handleCopy = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="my-2 rounded-xl overflow-hidden bg-[#0d1117] border border-black/20 text-left">
+      <div className="flex items-center justify-between px-3 py-1 bg-white/5 text-[10px] font-bold uppercase tracking-widest text-gray-400">
+        <span>{lang || 'code'}</span>
+        <button onClick={handleCopy} className="pointer-events-auto flex items-center space-x-1 hover:text-white transition-colors">
+          <i className={`fa-solid ${copied ? 'fa-check text-green-400' : 'fa-copy'}`}></i>
+          <span>{copied ? 'Copied' : 'Copy'}</span>
+        </button>
+      </div>
+      <pre className="px-3 py-2 overflow-x-auto no-scrollbar text-[12.5px] leading-relaxed text-gray-200 font-mono whitespace-pre pointer-events-auto">
+        <code>
+          {tokens.map((t, i) => t.className
+            ? <span key={i} className={t.className}><HighlightedText text={t.text} highlight={highlight} isActive={isActive} /></span>
+            : <HighlightedText key={i} text={t.text} highlight={highlight} isActive={isActive} />
+          )}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+const MessageContent: React.FC<Props> = ({ text, highlight, isActive, isUser = false, mentions = [] }) => {
+  const blocks = useMemo(() => parseBlocks(text), [text]);
+  const mentionRe = useMemo(() => mentionPattern(mentions), [mentions.join('\n')]);
+
+  const inlineCodeClass = isUser ? 'bg-white/20' : 'bg-black/10 dark:bg-white/10';
+  const linkClass = isUser ? 'underline text-white' : 'underline text-blue-500 dark:text-blue-400';
+  const mentionClass = isUser ? 'font-semibold bg-white/20 rounded px-0.5' : 'font-semibold text-blue-500 dark:text-blue-400';
+
+  const renderText = (source: string, key: string): React.ReactNode => {
+    if (!mentionRe || !source.includes('@')) return <HighlightedText key={key} text={source} highlight={highlight} isActive={isActive} />;
+    const nodes: React.ReactNode[] = [];
+    let last = 0;
+    for (const match of source.matchAll(mentionRe)) {
+      const index = match.index!;
+      if (index > last) nodes.push(<HighlightedText key={`${key}-${index}-t`} text={source.slice(last, index)} highlight={highlight} isActive={isActive} />);
+      nodes.push(<span key={`${key}-${index}`} className={mentionClass}><HighlightedText text={match[0]} highlight={highlight} isActive={isActive} /></span>);
+      last = index + match[0].length;
+    }
+    if (last < source.length) nodes.push(<HighlightedText key={`${key}-end`} text={source.slice(last)} highlight={highlight} isActive={isActive} />);
+    return <React.Fragment key={key}>{nodes}</React.Fragment>;
+  };
+
+  const renderInline = (source: string, keyPrefix: string): React.ReactNode[] => {
+    const nodes: React.ReactNode[] = [];
+    let last = 0;
+    for (const match of source.matchAll(INLINE_RE)) {
+      const index = match.index!;
+      const key = `${keyPrefix}-${index}`;
+      if (index > last) nodes.push(renderText(source.slice(last, index), `${key}-t`));
+
+      if (match[2] !== undefined) {
+        nodes.push(<code key={key} className={`${inlineCodeClass} rounded px-1 py-0.5 font-mono text-[0.9em]`}><HighlightedText text={match[2]} highlight={highlight} isActive={isActive} /></code>);
+      } else if (match[3] !== undefined || match[4] !== undefined) {
+        nodes.push(<MathView key={key} tex={match[3] ?? match[4]} display={false} />);
+      } else if (match[5] !== undefined) {
+        nodes.push(<a key={key} href={match[6]} target="_blank" rel="noreferrer" onClick={e => e.stopPropagation()} className={`${linkClass} pointer-events-auto`}>{renderInline(match[5], key)}</a>);
+      } else if (match[7] !== undefined) {
+        nodes.push(<a key={key} href={match[7]} target="_blank" rel="noreferrer" onClick={e => e.stopPropagation()} className={`${linkClass} pointer-events-auto break-all`}><HighlightedText text={match[7]} highlight={highlight} isActive={isActive} /></a>);
+      } else if (match[8] !== undefined || match[9] !== undefined) {
+        nodes.push(<strong key={key} className="font-bold">{renderInline(match[8] ?? match[9], key)}</strong>);
+      } else if (match[10] !== undefined) {
+        nodes.push(<del key={key}>{renderInline(match[10], key)}</del>);
+      } else {
+        nodes.push(<em key={key}>{renderInline(match[11] ?? match[12], key)}</em>);
+      }
+      last = index + match[0].length;
+    }
+    if (last < source.length) nodes.push(renderText(source.slice(last), `${keyPrefix}-end`));
+    return nodes;
+  };
+
+  const renderBlocks = (items: Block[], keyPrefix: string): React.ReactNode[] => items.map((block, i) => {
+    const key = `${keyPrefix}-${i}`;
+    switch (block.type) {
+      case 'heading': {
+        const sizes = ['text-[19px]', 'text-[17px]', 'text-[16px]', 'text-[15px]', 'text-[15px]', 'text-[15px]'];
+        return <div key={key} className={`${sizes[block.level - 1]} font-bold mt-2 mb-1`}>{renderInline(block.text, key)}</div>;
+      }
+      case 'paragraph':
+        return <p key={key} className="whitespace-pre-wrap my-1 first:mt-0 last:mb-0">{renderInline(block.text, key)}</p>;
+      case 'code':
+        return <CodeBlock key={key} code={block.code} lang={block.lang} highlight={highlight} isActive={isActive} />;
+      case 'math':
+        return <MathView key={key} tex={block.tex} display={true} />;
+      case 'hr':
+        return <hr key={key} className="my-3 border-current opacity-20" />;
+      case 'quote':
+        return <blockquote key={key} className="border-l-4 border-gray-400/50 pl-3 my-2 opacity-80 italic">{renderBlocks(parseBlocks(block.text), key)}</blockquote>;
+      case 'list': {
+        const ListTag = block.ordered ? 'ol' : 'ul';
+        return (
+          <ListTag key={key} start={block.ordered ? block.start : undefined} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-5 my-1 space-y-0.5`}>
+            {block.items.map((item, j) => <li key={`${key}-${j}`}>{renderBlocks(parseBlocks(item), `${key}-${j}`)}</li>)}
+          </ListTag>
+        );
+      }
+      case 'table':
+        return (
+          <div key={key} className="my-2 overflow-x-auto no-scrollbar pointer-events-auto">
+            <table className="text-[13px] border-collapse">
+              <thead>
+                <tr>{block.header.map((cell, j) => <th key={j} style={{ textAlign: block.align[j] || 'left' }} className="border border-gray-400/30 px-2 py-1 font-bold bg-black/5 dark:bg-white/5">{renderInline(cell, `${key}-h${j}`)}</th>)}</tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r}>{row.map((cell, j) => <td key={j} style={{ textAlign: block.align[j] || 'left' }} className="border border-gray-400/30 px-2 py-1 align-top">{renderInline(cell, `${key}-${r}-${j}`)}</td>)}</tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+    }
+  });
+
+  return <div className="leading-relaxed selectable-text break-words">{renderBlocks(blocks, 'b')}</div>;
+};
+
+export default MessageContent;
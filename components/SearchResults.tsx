@@ -0,0 +1,168 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Chat, ModelProvider } from '../types';
+import { DEFAULT_SEARCH_FILTERS, SearchFilters, searchMessages, tokenize } from '../services/searchService';
+import { listProviders } from '../services/providers';
+import { EmbeddingProvider, SemanticHit, semanticSearch } from '../services/embeddingService';
+
+interface Props {
+  query: string;
+  chats: Chat[];
+  /** Bumped by App after it updates the shared message index */
+  indexVersion: number;
+  folders: string[];
+  /** Set when semantic search is enabled in Settings */
+  semanticProvider?: EmbeddingProvider | null;
+  apiKeys: Record<string, string>;
+  onOpen: (chatId: string, messageId: string) => void;
+}
+
+const SEMANTIC_DEBOUNCE_MS = 400;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-full whitespace-nowrap text-[11px] font-bold border outline-none appearance-none cursor-pointer transition-all ${active ? 'bg-blue-500 border-blue-500 text-white' : 'bg-gray-50 dark:bg-ios-darkSurface border-gray-100 dark:border-gray-800 text-gray-500'}`;
+
+const Snippet: React.FC<{ text: string, terms: string[] }> = ({ text, terms }) => {
+  if (terms.length === 0) return <>{text}</>;
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, i) => i % 2 === 1
+        ? <mark key={i} className="bg-yellow-200/50 dark:bg-yellow-500/30 dark:text-white rounded-sm px-0.5">{part}</mark>
+        : part
+      )}
+    </>
+  );
+};
+
+// Day boundaries in local time, so "to" includes the whole selected day
+const dayStart = (value: string) => value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+const dayEnd = (value: string) => value ? new Date(`${value}T23:59:59.999`).getTime() : undefined;
+
+const SearchResults: React.FC<Props> = ({ query, chats, indexVersion, folders, semanticProvider = null, apiKeys, onOpen }) => {
+  const [filters, setFilters] = useState<SearchFilters>(DEFAULT_SEARCH_FILTERS);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [mode, setMode] = useState<'keywords' | 'meaning'>('keywords');
+  const [semanticHits, setSemanticHits] = useState<SemanticHit[] | null>(null);
+  const [semanticError, setSemanticError] = useState<string | null>(null);
+  const isMeaning = mode === 'meaning' && !!semanticProvider;
+
+  const assistants = useMemo(() => chats.filter(c => !c.isGroup).sort((a, b) => a.name.localeCompare(b.name)), [chats]);
+  const terms = useMemo(() => tokenize(query), [query]);
+
+  const hits = useMemo(
+    () => searchMessages(query, chats, { ...filters, from: dayStart(fromDate), to: dayEnd(toDate) }),
+    [query, chats, indexVersion, filters, fromDate, toDate]
+  );
+
+  // Embedding the query may hit an API, so wait until typing pauses
+  useEffect(() => {
+    if (!isMeaning) return;
+    const controller = new AbortController();
+    setSemanticHits(null);
+    setSemanticError(null);
+    const timer = setTimeout(() => {
+      semanticSearch(query, chats, semanticProvider!, apiKeys, filters.includeArchived, 20, controller.signal)
+        .then(setSemanticHits)
+        .catch(e => { if (!controller.signal.aborted) setSemanticError(e.message); });
+    }, SEMANTIC_DEBOUNCE_MS);
+    return () => { clearTimeout(timer); controller.abort(); };
+  }, [isMeaning, query, chats, filters.includeArchived, semanticProvider, apiKeys]);
+
+  const update = (patch: Partial<SearchFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+  const hasFilters = filters !== DEFAULT_SEARCH_FILTERS || !!fromDate || !!toDate;
+
+  return (
+    <div className="bg-white dark:bg-ios-darkBg">
+      <div className="px-4 py-2 flex items-center space-x-2 overflow-x-auto no-scrollbar border-b border-gray-100 dark:border-gray-800/40">
+        {semanticProvider && (
+          <div className="flex shrink-0 bg-gray-100 dark:bg-ios-darkSurface rounded-full p-0.5">
+            {(['keywords', 'meaning'] as const).map(m => (
+              <button key={m} onClick={() => setMode(m)} className={`px-3 py-1 rounded-full text-[11px] font-bold capitalize transition-all ${mode === m ? 'bg-white dark:bg-gray-700 text-blue-500 shadow-sm' : 'text-gray-500'}`}>{m}</button>
+            ))}
+          </div>
+        )}
+        {!isMeaning && (<>
+        <select value={filters.sender} onChange={(e) => update({ sender: e.target.value as SearchFilters['sender'] })} className={chipClass(filters.sender !== 'all')}>
+          <option value="all">Anyone</option>
+          <option value="user">From me</option>
+          <option value="ai">From AI</option>
+        </select>
+        <select value={filters.assistantId || ''} onChange={(e) => update({ assistantId: e.target.value || undefined })} className={chipClass(!!filters.assistantId)}>
+          <option value="">All assistants</option>
+          {assistants.map(a => (<option key={a.id} value={a.id}>{a.name}</option>))}
+        </select>
+        <select value={filters.provider || ''} onChange={(e) => update({ provider: (e.target.value || undefined) as ModelProvider | undefined })} className={chipClass(!!filters.provider)}>
+          <option value="">All providers</option>
+          {listProviders().map(p => (<option key={p.id} value={p.id}>{p.label}</option>))}
+        </select>
+        <select value={filters.folder || ''} onChange={(e) => update({ folder: e.target.value || undefined })} className={chipClass(!!filters.folder)}>
+          <option value="">All folders</option>
+          {folders.map(f => (<option key={f} value={f}>{f}</option>))}
+        </select>
+        <input type="date" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)} title="From" className={chipClass(!!fromDate)} />
+        <input type="date" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} title="To" className={chipClass(!!toDate)} />
+        </>)}
+        <button onClick={() => update({ includeArchived: !filters.includeArchived })} className={chipClass(filters.includeArchived)}>
+          <i className="fa-solid fa-box-archive mr-1"></i>Archived
+        </button>
+        {hasFilters && !isMeaning && (
+          <button onClick={() => { setFilters(DEFAULT_SEARCH_FILTERS); setFromDate(''); setToDate(''); }} className="text-[11px] font-bold text-blue-500 whitespace-nowrap px-1">Reset</button>
+        )}
+      </div>
+
+      {isMeaning ? (<>
+      <div className="px-4 py-2 bg-gray-50/50 dark:bg-white/[0.02]">
+        <h2 className="text-[9px] font-black text-gray-400 uppercase tracking-[0.25em]">
+          {semanticError ? 'Semantic search failed' : semanticHits === null ? <><i className="fa-solid fa-circle-notch fa-spin mr-1"></i>Searching by meaning</> : semanticHits.length === 0 ? 'No similar conversations' : 'Closest conversations'}
+        </h2>
+      </div>
+      {semanticError && <div className="px-4 py-3 text-xs text-red-500">{semanticError}</div>}
+      {semanticHits?.map(hit => {
+        const chat = chats.find(c => c.id === hit.chatId);
+        return (
+          <div
+            key={hit.chatId}
+            onClick={() => onOpen(hit.chatId, hit.messageId)}
+            className="px-4 py-3 cursor-pointer border-b border-gray-100 dark:border-gray-800/40 active:bg-gray-100 dark:active:bg-gray-800/50"
+          >
+            <div className="flex justify-between items-baseline">
+              <h3 className="font-bold truncate pr-2 text-[15px] text-gray-900 dark:text-white">{chat?.name}</h3>
+              <span className="text-[10px] font-black text-purple-500 shrink-0">{Math.round(Math.max(hit.score, 0) * 100)}%</span>
+            </div>
+            <p className="text-[13px] text-gray-500 dark:text-gray-400 line-clamp-2 mt-0.5">{hit.snippet}</p>
+          </div>
+        );
+      })}
+      </>) : (<>
+      <div className="px-4 py-2 bg-gray-50/50 dark:bg-white/[0.02]">
+        <h2 className="text-[9px] font-black text-gray-400 uppercase tracking-[0.25em]">{hits.length === 0 ? 'No messages found' : `${hits.length} messages`}</h2>
+      </div>
+
+      {hits.map(hit => (
+        <div
+          key={`${hit.chatId}-${hit.messageId}`}
+          onClick={() => onOpen(hit.chatId, hit.messageId)}
+          className="px-4 py-3 cursor-pointer border-b border-gray-100 dark:border-gray-800/40 active:bg-gray-100 dark:active:bg-gray-800/50"
+        >
+          <div className="flex justify-between items-baseline">
+            <h3 className="font-bold truncate pr-2 text-[15px] text-gray-900 dark:text-white">{hit.chatName}</h3>
+            <span className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-tighter shrink-0">
+              {new Date(hit.timestamp).toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' })}
+            </span>
+          </div>
+          <p className="text-[13px] text-gray-500 dark:text-gray-400 line-clamp-2 mt-0.5">
+            <span className={`font-bold ${hit.sender === 'user' ? 'text-blue-500' : 'text-gray-700 dark:text-gray-200'}`}>{hit.authorName}: </span>
+            <Snippet text={hit.snippet} terms={terms} />
+          </p>
+        </div>
+      ))}
+      </>)}
+    </div>
+  );
+};
+
+export default SearchResults;
@@ -1,7 +1,13 @@
 
 import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
-import { AppSettings, Chat, AppTheme, ModelProvider } from '../types';
+import { AppSettings, Chat, AppTheme, ModelProvider, CustomEndpoint } from '../types';
 import { discoverRemoteOccultPersonas } from '../services/aiService';
+import { listProviders, fetchEndpointModels, normalizeBaseUrl, syncCustomEndpoints } from '../services/providers';
+import UsageDashboard from './UsageDashboard';
+import { listTranscribers } from '../services/speechService';
+import { listEmbeddingProviders } from '../services/embeddingService';
+import { downloadFile } from '../services/exportService';
+import ExportSheet from './ExportSheet';
 
 interface Props {
   settings: AppSettings;
@@ -15,17 +21,22 @@ interface Props {
 
 const SettingsView: React.FC<Props> = ({ settings, setSettings, chats, onImportMany, onUnarchiveChat, onDeleteChat, onClose }) => {
   const [isScanning, setIsScanning] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const [showArchive, setShowArchive] = useState(false);
   const [scanStatus, setScanStatus] = useState<{ type: 'idle' | 'success' | 'error' | 'loading', message: string }>({
     type: 'idle',
     message: ''
   });
 
+  const [isAddingEndpoint, setIsAddingEndpoint] = useState(false);
+  const [endpointDraft, setEndpointDraft] = useState({ name: '', baseUrl: '', apiKey: '', models: '', contextWindow: '' });
+  const [endpointStatus, setEndpointStatus] = useState<{ type: 'idle' | 'error' | 'loading', message: string }>({ type: 'idle', message: '' });
+
   const lastScannedKeysRef = useRef("");
   const archivedChats = useMemo(() => chats.filter(c => c.tags.includes('#archived')), [chats]);
 
   const handleRealScan = useCallback(async (isAuto = false) => {
-    if (!settings.openaiKey && !settings.deepseekKey && !process.env.API_KEY) {
+    if (!settings.apiKeys.openai && !settings.apiKeys.deepseek && !process.env.API_KEY) {
       if (!isAuto) {
         setScanStatus({ type: 'error', message: 'Please set at least one API Key below to sync assistants.' });
       }
@@ -36,10 +47,7 @@ const SettingsView: React.FC<Props> = ({ settings, setSettings, chats, onImportM
     setScanStatus({ type: 'loading', message: isAuto ? 'Auto-syncing assistants...' : 'Syncing with cloud providers...' });
     
     try {
-      const discovered = await discoverRemoteOccultPersonas({
-        openaiKey: settings.openaiKey,
-        deepseekKey: settings.deepseekKey
-      });
+      const discovered = await discoverRemoteOccultPersonas(settings.apiKeys);
       
       if (discovered.length > 0) {
         const newChats: Chat[] = discovered.map((d, i) => ({
@@ -75,16 +83,18 @@ const SettingsView: React.FC<Props> = ({ settings, setSettings, chats, onImportM
     } finally {
       setIsScanning(false);
     }
-  }, [settings.openaiKey, settings.deepseekKey, onImportMany]);
+  }, [settings.apiKeys, onImportMany]);
 
   // Auto-sync effect: triggers when keys are entered or changed
   useEffect(() => {
-    const hasOpenAI = settings.openaiKey && settings.openaiKey.length > 10;
-    const hasDeepSeek = settings.deepseekKey && settings.deepseekKey.length > 10;
+    const openaiKey = settings.apiKeys.openai || '';
+    const deepseekKey = settings.apiKeys.deepseek || '';
+    const hasOpenAI = openaiKey.length > 10;
+    const hasDeepSeek = deepseekKey.length > 10;
     
     if (!hasOpenAI && !hasDeepSeek) return;
 
-    const currentKeys = `${settings.openaiKey}:${settings.deepseekKey}`;
+    const currentKeys = `${openaiKey}:${deepseekKey}`;
     // Skip if we already auto-scanned these exact keys
     if (currentKeys === lastScannedKeysRef.current) return;
 
@@ -94,7 +104,7 @@ const SettingsView: React.FC<Props> = ({ settings, setSettings, chats, onImportM
     }, 1500); 
 
     return () => clearTimeout(timer);
-  }, [settings.openaiKey, settings.deepseekKey, handleRealScan]);
+  }, [settings.apiKeys.openai, settings.apiKeys.deepseek, handleRealScan]);
 
   const handleExportVault = () => {
     const data = {
@@ -102,21 +112,17 @@ const SettingsView: React.FC<Props> = ({ settings, setSettings, chats, onImportM
         settings: {
             theme: settings.theme,
             customFolders: settings.customFolders,
-            openaiKey: settings.openaiKey,
-            deepseekKey: settings.deepseekKey,
+            apiKeys: settings.apiKeys,
+            customEndpoints: settings.customEndpoints,
             defaultProvider: settings.defaultProvider,
-            globalSystemPrompt: settings.globalSystemPrompt
+            globalSystemPrompt: settings.globalSystemPrompt,
+            modelPrices: settings.modelPrices,
+            monthlyBudget: settings.monthlyBudget
         },
-        version: '1.2',
+        version: '1.3',
         exportedAt: new Date().toISOString()
     };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `smartchat-backup-${new Date().toISOString().split('T')[0]}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadFile(JSON.stringify(data, null, 2), `smartchat-backup-${new Date().toISOString().split('T')[0]}.json`, 'application/json');
   };
 
   const handleImportVault = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -131,14 +137,27 @@ const SettingsView: React.FC<Props> = ({ settings, setSettings, chats, onImportM
                 if (confirm(`Restore ${data.chats.length} assistants? This will merge with your current list.`)) {
                     onImportMany(data.chats);
                     if (data.settings) {
+                        const customEndpoints = [
+                          ...settings.customEndpoints,
+                          ...((data.settings.customEndpoints || []) as CustomEndpoint[]).filter(e => !settings.customEndpoints.some(existing => existing.id === e.id))
+                        ];
+                        syncCustomEndpoints(customEndpoints);
                         setSettings(s => ({ 
                             ...s, 
                             theme: data.settings.theme || s.theme,
                             customFolders: data.settings.customFolders || s.customFolders,
-                            openaiKey: data.settings.openaiKey || s.openaiKey,
-                            deepseekKey: data.settings.deepseekKey || s.deepseekKey,
+                            apiKeys: {
+                              ...s.apiKeys,
+                              // Бэкапы до 1.3 хранили ключи отдельными полями
+                              ...(data.settings.openaiKey ? { openai: data.settings.openaiKey } : {}),
+                              ...(data.settings.deepseekKey ? { deepseek: data.settings.deepseekKey } : {}),
+                              ...(data.settings.apiKeys || {})
+                            },
+                            customEndpoints,
                             defaultProvider: data.settings.defaultProvider || s.defaultProvider,
-                            globalSystemPrompt: data.settings.globalSystemPrompt || s.globalSystemPrompt
+                            globalSystemPrompt: data.settings.globalSystemPrompt || s.globalSystemPrompt,
+                            modelPrices: { ...s.modelPrices, ...(data.settings.modelPrices || {}) },
+                            monthlyBudget: data.settings.monthlyBudget ?? s.monthlyBudget
                         }));
                     }
                     alert("Data restored successfully.");
@@ -151,6 +170,49 @@ const SettingsView: React.FC<Props> = ({ settings, setSettings, chats, onImportM
     reader.readAsText(file);
   };
 
+  const handleFetchEndpointModels = async () => {
+    if (!endpointDraft.baseUrl.trim()) return;
+    setEndpointStatus({ type: 'loading', message: 'Fetching models...' });
+    try {
+      const models = await fetchEndpointModels(endpointDraft.baseUrl, endpointDraft.apiKey.trim() || undefined);
+      setEndpointDraft(d => ({ ...d, models: models.join(', ') }));
+      setEndpointStatus({ type: 'idle', message: models.length ? `Found ${models.length} models.` : 'Server returned no models.' });
+    } catch (e: any) {
+      setEndpointStatus({ type: 'error', message: `Could not list models: ${e.message}` });
+    }
+  };
+
+  const handleAddEndpoint = () => {
+    const models = endpointDraft.models.split(',').map(m => m.trim()).filter(Boolean);
+    if (!endpointDraft.name.trim() || !endpointDraft.baseUrl.trim() || models.length === 0) return;
+
+    const endpoint: CustomEndpoint = {
+      id: `custom-${Date.now()}`,
+      name: endpointDraft.name.trim(),
+      baseUrl: normalizeBaseUrl(endpointDraft.baseUrl),
+      apiKey: endpointDraft.apiKey.trim() || undefined,
+      models,
+      contextWindow: parseInt(endpointDraft.contextWindow, 10) || undefined
+    };
+    const customEndpoints = [...settings.customEndpoints, endpoint];
+    syncCustomEndpoints(customEndpoints);
+    setSettings(s => ({ ...s, customEndpoints }));
+    setEndpointDraft({ name: '', baseUrl: '', apiKey: '', models: '', contextWindow: '' });
+    setEndpointStatus({ type: 'idle', message: '' });
+    setIsAddingEndpoint(false);
+  };
+
+  const handleRemoveEndpoint = (id: string) => {
+    if (!confirm("Remove this endpoint? Assistants using it will stop responding.")) return;
+    const customEndpoints = settings.customEndpoints.filter(e => e.id !== id);
+    syncCustomEndpoints(customEndpoints);
+    setSettings(s => ({
+      ...s,
+      customEndpoints,
+      defaultProvider: s.defaultProvider === id ? 'gemini' : s.defaultProvider
+    }));
+  };
+
   const setTheme = (theme: AppTheme) => {
     setSettings(prev => ({ ...prev, theme }));
   };
@@ -188,17 +250,17 @@ const SettingsView: React.FC<Props> = ({ settings, setSettings, chats, onImportM
         <section className="space-y-2">
           <label className="px-4 text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-widest">Default AI Provider</label>
           <div className="bg-white dark:bg-ios-darkSurface rounded-2xl p-1 flex border border-gray-100 dark:border-gray-800 shadow-sm">
-            {(['gemini', 'openai', 'deepseek'] as ModelProvider[]).map((p) => (
+            {listProviders().map(({ id: p, label }) => (
               <button
                 key={p}
                 onClick={() => setDefaultProvider(p)}
-                className={`flex-1 py-2 text-[10px] font-black rounded-xl transition-all uppercase ${
+                className={`flex-1 min-w-0 truncate px-1 py-2 text-[10px] font-black rounded-xl transition-all uppercase ${
                   settings.defaultProvider === p 
                     ? 'bg-blue-500 text-white shadow-sm' 
                     : 'text-gray-400 hover:text-gray-600 dark:hover:text-gray-200'
                 }`}
               >
-                {p}
+                {label}
               </button>
             ))}
           </div>
@@ -218,6 +280,48 @@ const SettingsView: React.FC<Props> = ({ settings, setSettings, chats, onImportM
           </div>
         </section>
 
+        <section className="space-y-2">
+          <label className="px-4 text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-widest">Voice Input</label>
+          <div className="bg-white dark:bg-ios-darkSurface rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm divide-y dark:divide-gray-800">
+            <div className="p-4 flex items-center justify-between">
+              <span className="text-sm dark:text-gray-300">Dictation engine</span>
+              <select
+                value={settings.transcriber || ''}
+                onChange={(e) => setSettings(s => ({ ...s, transcriber: e.target.value || undefined }))}
+                className="text-sm font-bold text-blue-500 bg-transparent outline-none appearance-none cursor-pointer text-right"
+              >
+                <option value="">Automatic</option>
+                {listTranscribers().map(t => (<option key={t.id} value={t.id} disabled={!t.isAvailable(settings.apiKeys)}>{t.label}{t.isAvailable(settings.apiKeys) ? '' : ' (unavailable)'}</option>))}
+              </select>
+            </div>
+          </div>
+        </section>
+
+        <section className="space-y-2">
+          <label className="px-4 text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-widest">Semantic Search</label>
+          <div className="bg-white dark:bg-ios-darkSurface rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm divide-y dark:divide-gray-800">
+            <div className="p-4 flex items-center justify-between">
+              <div className="flex flex-col pr-4">
+                <span className="text-sm dark:text-gray-300">Search by meaning</span>
+                <span className="text-[10px] text-gray-400">Indexes messages for the sidebar and related chats</span>
+              </div>
+              <input type="checkbox" checked={!!settings.semanticSearch} onChange={e => setSettings(s => ({ ...s, semanticSearch: e.target.checked }))} className="w-5 h-5 accent-blue-500" />
+            </div>
+            {settings.semanticSearch && (
+              <div className="p-4 flex items-center justify-between">
+                <span className="text-sm dark:text-gray-300">Embeddings</span>
+                <select
+                  value={settings.embeddingProvider || ''}
+                  onChange={(e) => setSettings(s => ({ ...s, embeddingProvider: e.target.value || undefined }))}
+                  className="text-sm font-bold text-blue-500 bg-transparent outline-none appearance-none cursor-pointer text-right"
+                >
+                  {listEmbeddingProviders().map(p => (<option key={p.id} value={p.id === 'local-hash' ? '' : p.id} disabled={!p.isAvailable(settings.apiKeys)}>{p.label}{p.isAvailable(settings.apiKeys) ? '' : ' (no key)'}</option>))}
+                </select>
+              </div>
+            )}
+          </div>
+        </section>
+
         <section className="space-y-2">
           <label className="px-4 text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-widest">Cloud & API Services</label>
           <div className="bg-white dark:bg-ios-darkSurface rounded-2xl overflow-hidden border border-gray-100 dark:border-gray-800 shadow-sm">
@@ -242,60 +346,137 @@ const SettingsView: React.FC<Props> = ({ settings, setSettings, chats, onImportM
               )}
             </div>
 
-            <div className="p-4">
-              <div className="flex justify-between items-center mb-2">
-                <div className="flex items-center space-x-2">
-                  <i className="fa-solid fa-cloud text-blue-500 text-xs"></i>
-                  <label className="text-xs font-bold dark:text-gray-300">Google Gemini API</label>
+            {listProviders().filter(p => !p.isCustom).map(provider => (
+              <div key={provider.id} className="p-4">
+                <div className="flex justify-between items-center mb-2">
+                  <div className="flex items-center space-x-2">
+                    <i className={`fa-solid ${provider.icon} text-xs`}></i>
+                    <label className="text-xs font-bold dark:text-gray-300">{provider.auth ? provider.auth.label : `${provider.label} API`}</label>
+                  </div>
+                  {(settings.apiKeys[provider.id] || provider.envApiKey) && <i className="fa-solid fa-circle-check text-green-500 text-[10px]"></i>}
                 </div>
-                {process.env.API_KEY && <i className="fa-solid fa-circle-check text-green-500 text-[10px]"></i>}
-              </div>
-              <div className="w-full text-[13px] bg-gray-50 dark:bg-ios-darkBg p-3 rounded-xl dark:text-gray-400 italic border border-transparent">
-                {process.env.API_KEY ? "Connected via environment" : "Key not found"}
+                {provider.auth ? (
+                  <>
+                    <input 
+                      type="password"
+                      value={settings.apiKeys[provider.id] || ''}
+                      onChange={(e) => setSettings(s => ({ ...s, apiKeys: { ...s.apiKeys, [provider.id]: e.target.value } }))}
+                      placeholder={provider.auth.placeholder}
+                      className="w-full text-sm outline-none bg-gray-50 dark:bg-ios-darkBg p-3 rounded-xl font-mono placeholder:text-gray-300 dark:text-white border border-transparent focus:border-blue-500/30 transition-all mb-1"
+                    />
+                    {provider.auth.billingUrl && <a href={provider.auth.billingUrl} target="_blank" rel="noreferrer" className="text-[10px] text-blue-500 hover:underline">Check {provider.label} Billing & Balance</a>}
+                  </>
+                ) : (
+                  <div className="w-full text-[13px] bg-gray-50 dark:bg-ios-darkBg p-3 rounded-xl dark:text-gray-400 italic border border-transparent">
+                    {provider.envApiKey ? "Connected via environment" : "Key not found"}
+                  </div>
+                )}
               </div>
-            </div>
+            ))}
+          </div>
+        </section>
 
-            <div className="p-4">
-              <div className="flex justify-between items-center mb-2">
-                <div className="flex items-center space-x-2">
-                  <i className="fa-solid fa-robot text-indigo-500 text-xs"></i>
-                  <label className="text-xs font-bold dark:text-gray-300">OpenAI API Key</label>
+        <section className="space-y-2">
+          <div className="flex justify-between items-center px-4">
+            <label className="text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-widest">Custom Endpoints</label>
+            <button onClick={() => setIsAddingEndpoint(!isAddingEndpoint)} className="text-[10px] font-black text-blue-500 uppercase">{isAddingEndpoint ? 'Cancel' : 'Add'}</button>
+          </div>
+          <div className="bg-white dark:bg-ios-darkSurface rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm divide-y dark:divide-gray-800 overflow-hidden">
+            {settings.customEndpoints.map(endpoint => (
+              <div key={endpoint.id} className="flex items-center p-4">
+                <i className="fa-solid fa-server text-teal-500 text-xs mr-3"></i>
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs font-bold dark:text-white truncate">{endpoint.name}</div>
+                  <div className="text-[10px] text-gray-400 font-mono truncate">{endpoint.baseUrl}</div>
+                  <div className="text-[9px] text-gray-400 uppercase truncate">{endpoint.models.length} models • {(endpoint.contextWindow || 8192).toLocaleString()} ctx • {endpoint.apiKey ? 'key set' : 'no key'}</div>
                 </div>
-                {settings.openaiKey && <i className="fa-solid fa-circle-check text-green-500 text-[10px]"></i>}
+                <button onClick={() => handleRemoveEndpoint(endpoint.id)} className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/10 rounded-lg transition-colors" title="Remove">
+                  <i className="fa-solid fa-trash-can"></i>
+                </button>
               </div>
-              <input 
-                type="password"
-                value={settings.openaiKey}
-                onChange={(e) => setSettings(s => ({ ...s, openaiKey: e.target.value }))}
-                placeholder="sk-..."
-                className="w-full text-sm outline-none bg-gray-50 dark:bg-ios-darkBg p-3 rounded-xl font-mono placeholder:text-gray-300 dark:text-white border border-transparent focus:border-blue-500/30 transition-all mb-1"
-              />
-              <a href="https://platform.openai.com/account/billing" target="_blank" rel="noreferrer" className="text-[10px] text-blue-500 hover:underline">Check OpenAI Billing & Balance</a>
-            </div>
-
-            <div className="p-4">
-              <div className="flex justify-between items-center mb-2">
-                <div className="flex items-center space-x-2">
-                  <i className="fa-solid fa-brain text-purple-500 text-xs"></i>
-                  <label className="text-xs font-bold dark:text-gray-300">DeepSeek API Key</label>
+            ))}
+            {settings.customEndpoints.length === 0 && !isAddingEndpoint && (
+              <div className="p-6 text-center text-xs text-gray-400">Connect Ollama, LM Studio, vLLM, OpenRouter or any OpenAI-compatible server.</div>
+            )}
+            {isAddingEndpoint && (
+              <div className="p-4 space-y-2">
+                <input 
+                  type="text"
+                  value={endpointDraft.name}
+                  onChange={(e) => setEndpointDraft(d => ({ ...d, name: e.target.value }))}
+                  placeholder="Display name (e.g. Local Ollama)"
+                  className="w-full text-sm outline-none bg-gray-50 dark:bg-ios-darkBg p-3 rounded-xl placeholder:text-gray-300 dark:text-white border border-transparent focus:border-blue-500/30 transition-all"
+                />
+                <input 
+                  type="text"
+                  value={endpointDraft.baseUrl}
+                  onChange={(e) => setEndpointDraft(d => ({ ...d, baseUrl: e.target.value }))}
+                  placeholder="http://localhost:11434/v1"
+                  className="w-full text-sm outline-none bg-gray-50 dark:bg-ios-darkBg p-3 rounded-xl font-mono placeholder:text-gray-300 dark:text-white border border-transparent focus:border-blue-500/30 transition-all"
+                />
+                <input 
+                  type="password"
+                  value={endpointDraft.apiKey}
+                  onChange={(e) => setEndpointDraft(d => ({ ...d, apiKey: e.target.value }))}
+                  placeholder="API key (optional)"
+                  className="w-full text-sm outline-none bg-gray-50 dark:bg-ios-darkBg p-3 rounded-xl font-mono placeholder:text-gray-300 dark:text-white border border-transparent focus:border-blue-500/30 transition-all"
+                />
+                <input 
+                  type="number"
+                  min={1024}
+                  value={endpointDraft.contextWindow}
+                  onChange={(e) => setEndpointDraft(d => ({ ...d, contextWindow: e.target.value }))}
+                  placeholder="Context window, tokens (default 8192)"
+                  className="w-full text-sm outline-none bg-gray-50 dark:bg-ios-darkBg p-3 rounded-xl font-mono placeholder:text-gray-300 dark:text-white border border-transparent focus:border-blue-500/30 transition-all"
+                />
+                <div className="flex space-x-2">
+                  <input 
+                    type="text"
+                    value={endpointDraft.models}
+                    onChange={(e) => setEndpointDraft(d => ({ ...d, models: e.target.value }))}
+                    placeholder="Models, comma separated"
+                    className="flex-1 min-w-0 text-sm outline-none bg-gray-50 dark:bg-ios-darkBg p-3 rounded-xl font-mono placeholder:text-gray-300 dark:text-white border border-transparent focus:border-blue-500/30 transition-all"
+                  />
+                  <button 
+                    onClick={handleFetchEndpointModels}
+                    disabled={!endpointDraft.baseUrl.trim() || endpointStatus.type === 'loading'}
+                    className="px-3 rounded-xl text-[10px] font-black uppercase bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 disabled:opacity-40"
+                  >
+                    <i className={`fa-solid ${endpointStatus.type === 'loading' ? 'fa-sync fa-spin' : 'fa-list'} mr-1`}></i>Fetch
+                  </button>
                 </div>
-                {settings.deepseekKey && <i className="fa-solid fa-circle-check text-green-500 text-[10px]"></i>}
+                {endpointStatus.message && (
+                  <div className={`text-[11px] p-2 rounded-lg border text-center ${endpointStatus.type === 'error' ? 'bg-red-50 border-red-200 text-red-700 dark:bg-red-900/10' : 'bg-blue-50 border-blue-200 text-blue-700'}`}>
+                    {endpointStatus.message}
+                  </div>
+                )}
+                <button 
+                  onClick={handleAddEndpoint}
+                  disabled={!endpointDraft.name.trim() || !endpointDraft.baseUrl.trim() || !endpointDraft.models.trim()}
+                  className="w-full py-3 rounded-xl font-bold bg-blue-500 text-white active:scale-95 transition-all disabled:opacity-40"
+                >
+                  Save Endpoint
+                </button>
               </div>
-              <input 
-                type="password"
-                value={settings.deepseekKey}
-                onChange={(e) => setSettings(s => ({ ...s, deepseekKey: e.target.value }))}
-                placeholder="sk-..."
-                className="w-full text-sm outline-none bg-gray-50 dark:bg-ios-darkBg p-3 rounded-xl font-mono placeholder:text-gray-300 dark:text-white border border-transparent focus:border-blue-500/30 transition-all mb-1"
-              />
-              <a href="https://platform.deepseek.com/usage" target="_blank" rel="noreferrer" className="text-[10px] text-blue-500 hover:underline">Check DeepSeek Billing & Balance</a>
-            </div>
+            )}
           </div>
         </section>
 
+        <UsageDashboard settings={settings} setSettings={setSettings} />
+
         <section className="space-y-2">
           <label className="px-4 text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-widest">Backup & Data</label>
           <div className="bg-white dark:bg-ios-darkSurface rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm divide-y dark:divide-gray-800">
+              <button 
+                  onClick={() => setIsExporting(true)}
+                  className="w-full flex items-center justify-between p-4 hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors text-left"
+              >
+                  <div className="flex items-center space-x-3">
+                      <i className="fa-solid fa-file-export text-green-500"></i>
+                      <span className="text-sm font-bold dark:text-white">Export Conversations</span>
+                  </div>
+                  <i className="fa-solid fa-chevron-right text-[10px] text-gray-300"></i>
+              </button>
               <button 
                   onClick={handleExportVault}
                   className="w-full flex items-center justify-between p-4 hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors text-left"
@@ -371,6 +552,7 @@ const SettingsView: React.FC<Props> = ({ settings, setSettings, chats, onImportM
           </div>
         </section>
       </div>
+      {isExporting && <ExportSheet allChats={chats} initialIds={[]} globalSystemPrompt={settings.globalSystemPrompt} selectable onClose={() => setIsExporting(false)} />}
     </div>
   );
 };
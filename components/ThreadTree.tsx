@@ -0,0 +1,82 @@
+
+import React, { useState } from 'react';
+import { Chat } from '../types';
+import { ThreadNode } from '../services/threadService';
+
+interface Props {
+  tree: ThreadNode;
+  currentChatId: string;
+  onJump: (chatId: string) => void;
+  onMergeBack: (chatId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const ThreadTree: React.FC<Props> = ({ tree, currentChatId, onJump, onMergeBack, onClose }) => {
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleMerge = async (chatId: string) => {
+    setMergingId(chatId);
+    setError(null);
+    try {
+      await onMergeBack(chatId);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setMergingId(null);
+    }
+  };
+
+  const renderNode = (node: ThreadNode, depth: number, parent?: Chat): React.ReactNode => {
+    const { chat } = node;
+    const isCurrent = chat.id === currentChatId;
+    const isMerged = !!parent?.messages.some(m => m.mergedFrom?.chatId === chat.id);
+    return (
+      <div key={chat.id}>
+        <div className="flex items-center py-2.5 border-b border-gray-800" style={{ paddingLeft: depth * 18 }}>
+          {depth > 0 && <i className="fa-solid fa-turn-up fa-rotate-90 text-[10px] text-gray-600 mr-2"></i>}
+          <div onClick={() => onJump(chat.id)} className="flex-1 min-w-0 cursor-pointer">
+            <div className={`text-[15px] font-semibold truncate ${isCurrent ? 'text-blue-400' : 'text-white'}`}>
+              {chat.name}
+              {isCurrent && <span className="ml-2 text-[9px] font-black uppercase tracking-widest text-blue-400">Here</span>}
+            </div>
+            <div className="text-gray-500 text-[12px] truncate">
+              {chat.messages.length} messages{chat.inheritContext ? ' • inherits context' : ''}{isMerged ? ' • merged back' : ''}
+            </div>
+          </div>
+          {parent && chat.messages.length > 0 && (
+            <button
+              onClick={() => handleMerge(chat.id)}
+              disabled={!!mergingId}
+              title={`Summarize into ${parent.name}`}
+              className="w-8 h-8 shrink-0 rounded-full bg-[#2c2c2e] flex items-center justify-center text-gray-400 hover:text-white disabled:opacity-40"
+            >
+              <i className={`fa-solid ${mergingId === chat.id ? 'fa-circle-notch fa-spin' : 'fa-code-merge'} text-xs`}></i>
+            </button>
+          )}
+        </div>
+        {node.children.map(child => renderNode(child, depth + 1, chat))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="absolute inset-0 z-[70] bg-black/60 backdrop-blur-sm flex items-end justify-center" onClick={onClose}>
+      <div className="w-full max-w-md bg-[#1c1c1e] rounded-t-[20px] shadow-2xl overflow-hidden flex flex-col max-h-[85%] modal-animate safe-bottom" onClick={e => e.stopPropagation()}>
+        <div className="px-4 pt-3 pb-2 flex justify-between items-center border-b border-gray-800 bg-[#1c1c1e] sticky top-0 z-10">
+          <span className="text-white font-bold text-lg">Threads</span>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-[#2c2c2e] flex items-center justify-center text-gray-400 hover:text-white hover:bg-[#3a3a3c] transition-colors">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+        {error && <div className="px-4 py-2 text-xs text-red-400 border-b border-gray-800">{error}</div>}
+        <div className="flex-1 overflow-y-auto px-4 pb-6">
+          {renderNode(tree, 0)}
+        </div>
+        <div className="px-4 pb-4 text-[11px] text-gray-500"><i className="fa-solid fa-code-merge mr-1"></i> Merge back posts a summary of the thread into its parent chat.</div>
+      </div>
+    </div>
+  );
+};
+
+export default ThreadTree;
@@ -0,0 +1,67 @@
+
+import React from 'react';
+import { Chat, TurnStrategy } from '../types';
+import { TURN_STRATEGY_OPTIONS } from '../constants';
+
+interface Props {
+  strategy: TurnStrategy;
+  moderatorId?: string;
+  weights: Record<string, number>;
+  participants: Chat[];
+  moderatorCandidates: Chat[];
+  onChange: (updates: { turnStrategy?: TurnStrategy; moderatorId?: string; turnWeights?: Record<string, number> }) => void;
+}
+
+const TurnStrategySettings: React.FC<Props> = ({ strategy, moderatorId, weights, participants, moderatorCandidates, onChange }) => {
+  const activeOption = TURN_STRATEGY_OPTIONS.find(o => o.id === strategy) || TURN_STRATEGY_OPTIONS[0];
+
+  return (
+    <div className="bg-white dark:bg-ios-darkSurface rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm divide-y dark:divide-gray-800">
+      <div className="p-4 flex items-center justify-between">
+        <span className="text-sm dark:text-gray-300">Strategy</span>
+        <select
+          value={strategy}
+          onChange={(e) => onChange({ turnStrategy: e.target.value as TurnStrategy })}
+          className="text-sm font-bold text-blue-500 bg-transparent outline-none appearance-none cursor-pointer text-right"
+        >
+          {TURN_STRATEGY_OPTIONS.map(o => (<option key={o.id} value={o.id}>{o.label}</option>))}
+        </select>
+      </div>
+      <div className="px-4 py-2 text-[11px] text-gray-400">{activeOption.description}</div>
+
+      {strategy === 'moderator' && (
+        <div className="p-4 flex items-center justify-between">
+          <span className="text-sm dark:text-gray-300">Moderator</span>
+          <select
+            value={moderatorId || ''}
+            onChange={(e) => onChange({ moderatorId: e.target.value || undefined })}
+            className="text-sm font-bold text-blue-500 bg-transparent outline-none appearance-none cursor-pointer text-right max-w-[60%] truncate"
+          >
+            <option value="">Choose...</option>
+            {moderatorCandidates.map(c => (<option key={c.id} value={c.id}>{c.name}</option>))}
+          </select>
+        </div>
+      )}
+
+      {strategy === 'weighted' && participants.map(p => (
+        <div key={p.id} className="px-4 py-3 flex items-center justify-between">
+          <span className="text-sm dark:text-gray-300 truncate mr-3">{p.name}</span>
+          <div className="flex items-center space-x-3 shrink-0">
+            <input
+              type="range" min="0" max="5" step="1"
+              value={weights[p.id] ?? 1}
+              onChange={(e) => onChange({ turnWeights: { ...weights, [p.id]: parseInt(e.target.value, 10) } })}
+              className="w-28 accent-blue-500"
+            />
+            <span className="text-[10px] font-black text-blue-500 bg-blue-50 dark:bg-blue-900/20 px-2 py-0.5 rounded w-6 text-center">{weights[p.id] ?? 1}</span>
+          </div>
+        </div>
+      ))}
+      {strategy === 'weighted' && participants.length === 0 && (
+        <div className="p-4 text-center text-xs text-gray-400">Choose participants to set their priority.</div>
+      )}
+    </div>
+  );
+};
+
+export default TurnStrategySettings;
@@ -0,0 +1,154 @@
+
+import React, { useState, useMemo, useSyncExternalStore } from 'react';
+import { AppSettings, ModelPrice } from '../types';
+import { DEFAULT_MODEL_PRICES } from '../constants';
+import { listProviders, getProviderLabel } from '../services/providers';
+import { getUsageLedger, groupUsage, monthSpend, formatCost, priceKey, subscribeUsage, withCosts, UsageGrouping } from '../services/usageService';
+
+interface Props {
+  settings: AppSettings;
+  setSettings: React.Dispatch<React.SetStateAction<AppSettings>>;
+}
+
+const GROUPINGS: { id: UsageGrouping; label: string }[] = [
+  { id: 'provider', label: 'Provider' },
+  { id: 'model', label: 'Model' },
+  { id: 'assistant', label: 'Assistant' },
+  { id: 'day', label: 'Day' }
+];
+
+const formatTokens = (n: number) => n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+
+const UsageDashboard: React.FC<Props> = ({ settings, setSettings }) => {
+  const [grouping, setGrouping] = useState<UsageGrouping>('provider');
+  const [showPrices, setShowPrices] = useState(false);
+
+  // The ledger outlives deleted chats and messages, so past spend stays counted
+  const ledger = useSyncExternalStore(subscribeUsage, getUsageLedger);
+  const records = useMemo(() => withCosts(ledger, settings.modelPrices), [ledger, settings.modelPrices]);
+  const totals = useMemo(() => groupUsage(records, grouping), [records, grouping]);
+  const spent = useMemo(() => monthSpend(records), [records]);
+  const budgetShare = settings.monthlyBudget ? Math.min(spent / settings.monthlyBudget, 1) : 0;
+
+  // Clearing a field falls back to the built-in price for that field only; the override goes once both are empty
+  const setPrice = (key: string, field: keyof ModelPrice, value: string) => {
+    setSettings(s => {
+      const { [field]: _cleared, ...rest } = s.modelPrices[key] || {};
+      const override = value === '' ? rest : { ...rest, [field]: Math.max(parseFloat(value) || 0, 0) };
+      const prices = { ...s.modelPrices };
+      if (Object.keys(override).length === 0) delete prices[key];
+      else prices[key] = override;
+      return { ...s, modelPrices: prices };
+    });
+  };
+
+  const rowLabel = (key: string, label: string) => {
+    if (grouping === 'provider') return getProviderLabel(key);
+    if (grouping === 'model') {
+      const [provider, ...model] = key.split('/');
+      return `${getProviderLabel(provider)} • ${model.join('/')}`;
+    }
+    return label;
+  };
+
+  return (
+    <>
+      <section className="space-y-2">
+        <label className="px-4 text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-widest">Usage & Costs</label>
+        <div className="bg-white dark:bg-ios-darkSurface rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm divide-y dark:divide-gray-800 overflow-hidden">
+          <div className="p-4 space-y-2">
+            <div className="flex items-baseline justify-between">
+              <span className="text-sm dark:text-gray-300">This month</span>
+              <span className={`text-lg font-black ${settings.monthlyBudget && spent >= settings.monthlyBudget ? 'text-red-500' : 'dark:text-white'}`}>
+                {formatCost(spent)}{settings.monthlyBudget ? <span className="text-xs font-bold text-gray-400"> / {formatCost(settings.monthlyBudget)}</span> : null}
+              </span>
+            </div>
+            {settings.monthlyBudget ? (
+              <div className="h-1.5 rounded-full bg-gray-100 dark:bg-gray-800 overflow-hidden">
+                <div className={`h-full rounded-full ${budgetShare >= 1 ? 'bg-red-500' : budgetShare >= 0.8 ? 'bg-orange-400' : 'bg-blue-500'}`} style={{ width: `${budgetShare * 100}%` }}></div>
+              </div>
+            ) : null}
+          </div>
+          <div className="p-4 flex items-center justify-between">
+            <span className="text-sm dark:text-gray-300">Monthly budget, $</span>
+            <input
+              type="number" min={0} step={1}
+              value={settings.monthlyBudget ?? ''}
+              onChange={(e) => setSettings(s => ({ ...s, monthlyBudget: parseFloat(e.target.value) || undefined }))}
+              placeholder="No budget"
+              className="w-28 text-sm font-bold text-blue-500 bg-transparent outline-none text-right placeholder:text-gray-300 placeholder:font-normal"
+            />
+          </div>
+          <div className="p-1 flex">
+            {GROUPINGS.map(g => (
+              <button
+                key={g.id}
+                onClick={() => setGrouping(g.id)}
+                className={`flex-1 py-2 text-[10px] font-black rounded-xl transition-all uppercase ${grouping === g.id ? 'bg-blue-500 text-white shadow-sm' : 'text-gray-400 hover:text-gray-600 dark:hover:text-gray-200'}`}
+              >
+                {g.label}
+              </button>
+            ))}
+          </div>
+          <div className="max-h-72 overflow-y-auto divide-y dark:divide-gray-800">
+            {totals.map(t => (
+              <div key={t.key} className="px-4 py-3 flex items-center">
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs font-bold dark:text-white truncate">{rowLabel(t.key, t.label)}</div>
+                  <div className="text-[9px] text-gray-400 uppercase truncate">
+                    {t.requests} req • {formatTokens(t.promptTokens)} in • {formatTokens(t.completionTokens)} out • {(t.avgLatencyMs / 1000).toFixed(1)}s avg
+                  </div>
+                </div>
+                <span className="text-xs font-black text-blue-500 ml-3">{formatCost(t.cost)}</span>
+              </div>
+            ))}
+            {totals.length === 0 && (
+              <div className="p-6 text-center text-xs text-gray-400">No usage recorded yet.</div>
+            )}
+          </div>
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <div className="flex justify-between items-center px-4">
+          <label className="text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-widest">Model Prices, $ / 1M tokens</label>
+          <button onClick={() => setShowPrices(!showPrices)} className="text-[10px] font-black text-blue-500 uppercase">{showPrices ? 'Hide' : 'Edit'}</button>
+        </div>
+        {showPrices && (
+          <div className="bg-white dark:bg-ios-darkSurface rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm divide-y dark:divide-gray-800 overflow-hidden">
+            <div className="px-4 py-2 flex text-[9px] font-black uppercase text-gray-400">
+              <span className="flex-1">Model</span>
+              <span className="w-16 text-right">Input</span>
+              <span className="w-16 text-right">Output</span>
+            </div>
+            {listProviders().flatMap(provider => provider.models.map(model => {
+              const key = priceKey(provider.id, model);
+              const override = settings.modelPrices[key];
+              const fallback = DEFAULT_MODEL_PRICES[key];
+              return (
+                <div key={key} className="px-4 py-2 flex items-center">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs font-bold dark:text-white truncate">{model}</div>
+                    <div className="text-[9px] text-gray-400 uppercase truncate">{provider.label}{override ? ' • custom' : ''}</div>
+                  </div>
+                  {(['input', 'output'] as const).map(field => (
+                    <input
+                      key={field}
+                      type="number" min={0} step={0.01}
+                      value={override?.[field] ?? ''}
+                      onChange={(e) => setPrice(key, field, e.target.value)}
+                      placeholder={fallback ? String(fallback[field]) : '—'}
+                      className="w-16 text-xs font-bold text-blue-500 bg-transparent outline-none text-right placeholder:text-gray-300 placeholder:font-normal"
+                    />
+                  ))}
+                </div>
+              );
+            }))}
+          </div>
+        )}
+      </section>
+    </>
+  );
+};
+
+export default UsageDashboard;
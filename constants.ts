@@ -1,5 +1,48 @@
 
-import { Chat, ImportCandidate } from './types';
+import { AIErrorKind, Chat, ImportCandidate, ModelPrice, TurnStrategy } from './types';
+
+// USD per 1M tokens. Overridden per model from Settings (AppSettings.modelPrices)
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini/gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini/gemini-3-pro-preview': { input: 2, output: 12 },
+  'openai/gpt-4o': { input: 2.5, output: 10 },
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai/o1': { input: 15, output: 60 },
+  'openai/o3-mini': { input: 1.1, output: 4.4 },
+  'deepseek/deepseek-chat': { input: 0.28, output: 0.42 },
+  'deepseek/deepseek-reasoner': { input: 0.28, output: 0.42 },
+  'anthropic/claude-sonnet-4-5': { input: 3, output: 15 },
+  'anthropic/claude-opus-4-1': { input: 15, output: 75 },
+  'anthropic/claude-haiku-4-5': { input: 1, output: 5 },
+  'openai/text-embedding-3-small': { input: 0.02, output: 0 }
+};
+
+export const ARENA_ROLE_PRESETS = [
+  'Argue for the proposition.',
+  'Argue against the proposition.',
+  'Act as the judge: weigh the arguments and deliver a verdict.',
+  "Play devil's advocate.",
+  'Summarize the discussion so far and point out open questions.'
+];
+
+export const TURN_STRATEGY_OPTIONS: { id: TurnStrategy; label: string; description: string }[] = [
+  { id: 'round-robin', label: 'Round Robin', description: 'Everyone speaks in a fixed order.' },
+  { id: 'random', label: 'Random', description: 'A random participant other than the last speaker.' },
+  { id: 'most-mentioned', label: 'Most Mentioned', description: 'Whoever the last message names most often.' },
+  { id: 'moderator', label: 'Moderator', description: 'A designated assistant decides who speaks next.' },
+  { id: 'weighted', label: 'Weighted', description: 'Random, with higher-priority participants picked more often.' }
+];
+
+export const ERROR_KIND_META: Record<AIErrorKind, { icon: string; hint: string }> = {
+  auth: { icon: 'fa-key', hint: 'Check the API key in Settings.' },
+  rate_limit: { icon: 'fa-gauge-high', hint: 'Too many requests. Wait a moment and retry.' },
+  quota: { icon: 'fa-credit-card', hint: 'Top up the provider balance or raise the quota.' },
+  context_overflow: { icon: 'fa-layer-group', hint: 'Shorten the message or enable Memory for this chat.' },
+  network: { icon: 'fa-wifi', hint: 'Check the connection and retry.' },
+  server: { icon: 'fa-server', hint: 'The provider is having trouble. Retry later.' },
+  content_filter: { icon: 'fa-shield-halved', hint: 'The provider blocked this request. Rephrase and retry.' },
+  unknown: { icon: 'fa-circle-info', hint: '' }
+};
 
 export const INITIAL_CHATS: Chat[] = [
   {
@@ -45,9 +88,3 @@ export const IMPORT_CATALOG: ImportCandidate[] = [
     tags: ['#travel']
   }
 ];
-
-export const MODEL_OPTIONS = {
-  openai: ['gpt-4o', 'gpt-4o-mini', 'o1', 'o3-mini'],
-  deepseek: ['deepseek-chat', 'deepseek-reasoner'],
-  gemini: ['gemini-3-flash-preview', 'gemini-3-pro-preview']
-};
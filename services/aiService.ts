@@ -1,209 +1,304 @@
+import { Attachment, Message, ModelProvider, Chat, MessageUsage, ModelRoute } from '../types';
+import { getProvider, getModelCapabilities, getContextWindow, resolveApiKey } from './providers';
+import { ProviderCapabilities, ProviderRequest, ProviderResult } from './providers/types';
+import { cleanResponse, estimateTokens, estimateMessageTokens, sleep } from './providers/common';
+import { AuthError, ProviderError } from './providers/errors';
+
+// Запас под ответ модели; рассуждающим моделям нужен бюджет на размышления
+const OUTPUT_RESERVE_TOKENS = 2048;
+const REASONING_RESERVE_TOKENS = 32768;
+
+// Повторы временных ошибок: 1с, 2с, 4с (±джиттер), но не дольше MAX_RETRY_DELAY_MS за раз
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+// Дешёвые модели для сжатия истории, в порядке предпочтения
+const SUMMARY_MODELS: { provider: ModelProvider; modelName: string }[] = [
+  { provider: 'gemini', modelName: 'gemini-3-flash-preview' },
+  { provider: 'openai', modelName: 'gpt-4o-mini' },
+  { provider: 'anthropic', modelName: 'claude-haiku-4-5' },
+  { provider: 'deepseek', modelName: 'deepseek-chat' }
+];
+
+export interface AIResponse {
+  text: string;
+  usage: MessageUsage;
+  /** Модель не приняла вложения последнего сообщения — их заменили названиями файлов */
+  warning?: string;
+}
 
-import { GoogleGenAI } from "@google/genai";
-import { Message, ModelProvider, Chat } from '../types';
-
-const MAX_HISTORY_MESSAGES = 40;
-const MAX_HISTORY_CHARS = 12000;
+export interface ContextPlan {
+  /** Сообщения, которые уйдут модели (без системных уведомлений) */
+  messages: Message[];
+  totalCount: number;
+  usedTokens: number;
+  budgetTokens: number;
+}
 
 /**
- * Подготавливает историю сообщений для разных провайдеров.
- * Для DeepSeek/OpenAI реализует строгую логику чередования ролей без "костыльных" сообщений.
+ * Подбирает самые свежие сообщения, которые помещаются в контекстное окно модели
+ * за вычетом системного промпта, сводки и запаса под ответ. Последнее сообщение берётся всегда.
  */
-function mapHistory(history: Message[], provider: ModelProvider) {
-  if (history.length === 0) return [];
+export function planContext(
+  provider: ModelProvider,
+  modelName: string,
+  systemPrompt: string,
+  history: Message[],
+  summary: string = ''
+): ContextPlan {
+  const contextWindow = getContextWindow(provider, modelName);
+  const { reasoning } = getModelCapabilities(provider, modelName);
+  const reserve = Math.min(Math.floor(contextWindow / 4), reasoning ? REASONING_RESERVE_TOKENS : OUTPUT_RESERVE_TOKENS);
+  const budgetTokens = Math.max(contextWindow - reserve - estimateTokens(systemPrompt) - estimateTokens(summary), 0);
 
-  // 1. Предварительная фильтрация и обрезка
   const chatMessages = history.filter(m => m.sender !== 'system');
-  let recent = chatMessages.slice(-MAX_HISTORY_MESSAGES);
-  
-  let totalChars = 0;
-  let finalMessages: Message[] = [];
-  for (let i = recent.length - 1; i >= 0; i--) {
-    const msg = recent[i];
-    if (totalChars + msg.text.length > MAX_HISTORY_CHARS && finalMessages.length > 0) break;
-    totalChars += msg.text.length;
-    finalMessages.unshift(msg);
+  let usedTokens = 0;
+  let start = chatMessages.length;
+  while (start > 0) {
+    const cost = estimateMessageTokens(chatMessages[start - 1]);
+    if (usedTokens + cost > budgetTokens && start < chatMessages.length) break;
+    usedTokens += cost;
+    start--;
   }
 
-  // 2. Базовое маппирование с сохранением авторства через теги
-  const mapped = finalMessages.map(msg => {
-    const authorLabel = msg.authorName || (msg.sender === 'user' ? 'User' : 'Assistant');
-    const role = provider === 'gemini' 
-      ? (msg.sender === 'user' ? 'user' : 'model') 
-      : (msg.sender === 'user' ? 'user' : 'assistant');
-    
-    return {
-      role,
-      content: `--- SOURCE: ${authorLabel.toUpperCase()} ---\n${msg.text.trim()}\n--- END ${authorLabel.toUpperCase()} ---`
-    };
-  });
-
-  // 3. Обработка для DeepSeek и OpenAI (Строгое чередование)
-  if (provider !== 'gemini') {
-    let strictHistory: { role: 'user' | 'assistant'; content: string }[] = [];
-    
-    // Сначала просто склеиваем идущие подряд одинаковые роли
-    mapped.forEach((m) => {
-      const currentRole = m.role as 'user' | 'assistant';
-      if (strictHistory.length > 0 && strictHistory[strictHistory.length - 1].role === currentRole) {
-        strictHistory[strictHistory.length - 1].content += "\n\n" + m.content;
-      } else {
-        strictHistory.push({ role: currentRole, content: m.content });
-      }
-    });
+  return { messages: chatMessages.slice(start), totalCount: chatMessages.length, usedTokens, budgetTokens };
+}
 
-    // ПРАВИЛО 1: Должно начинаться с 'user'
-    if (strictHistory.length > 0 && strictHistory[0].role === 'assistant') {
-      const first = strictHistory.shift()!;
-      strictHistory.unshift({ 
-        role: 'user', 
-        content: `[PREVIOUS CONTEXT]:\n${first.content}` 
-      });
+/**
+ * Убирает вложения, которые модель не принимает, оставляя в тексте их названия.
+ * Предупреждение возвращается только для последнего сообщения, чтобы не повторять его на каждом ходу.
+ */
+function adaptAttachments(history: Message[], capabilities: ProviderCapabilities, label: string): { history: Message[]; warning?: string } {
+  const isSupported = (a: Attachment) => a.kind === 'text' || (a.kind === 'image' ? capabilities.images : capabilities.pdf);
+  let warning: string | undefined;
+  const adapted = history.map((msg, i) => {
+    const dropped = (msg.attachments || []).filter(a => !isSupported(a));
+    if (dropped.length === 0) return msg;
+    if (i === history.length - 1) {
+      const kinds = Array.from(new Set(dropped.map(a => a.kind === 'image' ? 'images' : 'PDF files'))).join(' or ');
+      warning = `⚠️ ${label} can't read ${kinds}. Sent as file names only: ${dropped.map(a => a.name).join(', ')}.`;
     }
+    const notes = dropped.map(a => `[Attached ${a.kind === 'image' ? 'image' : 'PDF'} "${a.name}" — not visible to this model]`);
+    return { ...msg, text: [msg.text, ...notes].filter(Boolean).join('\n'), attachments: msg.attachments!.filter(isSupported) };
+  });
+  return { history: adapted, warning };
+}
 
-    // ПРАВИЛО 2: DeepSeek требует, чтобы история ЗАКАНЧИВАЛАСЬ на 'user'.
-    // Если в истории последним ответил другой ИИ (assistant), мы вливаем его ответ 
-    // в предыдущий user-блок как часть контекста, чтобы не плодить "костыльные" сообщения.
-    if (strictHistory.length > 1 && strictHistory[strictHistory.length - 1].role === 'assistant') {
-      const lastAssistantTurn = strictHistory.pop()!;
-      // Вливаем в предыдущий user-блок
-      strictHistory[strictHistory.length - 1].content += `\n\n[FOLLOW-UP RESPONSE]:\n${lastAssistantTurn.content}`;
-    } else if (strictHistory.length === 1 && strictHistory[0].role === 'assistant') {
-        // Если вообще всего одно сообщение и оно от ассистента (подмена роли)
-        const onlyMsg = strictHistory.pop()!;
-        strictHistory.push({ role: 'user', content: `[DIALOGUE CONTEXT]:\n${onlyMsg.content}` });
-    }
+/**
+ * Собирает запрос для адаптера с учётом возможностей модели.
+ */
+function buildProviderRequest(
+  provider: ModelProvider,
+  modelName: string,
+  systemPrompt: string,
+  history: Message[],
+  apiKey: string,
+  temperature: number,
+  signal?: AbortSignal,
+  summary?: string
+): { request: ProviderRequest; warning?: string } {
+  const adapter = getProvider(provider);
+  if (!adapter) throw new Error(`Unknown provider: ${provider}`);
+
+  const key = apiKey || adapter.envApiKey || '';
+  if (adapter.auth && !key) throw new AuthError(`API Key missing for ${provider.toUpperCase()}`);
+
+  const capabilities = getModelCapabilities(provider, modelName);
+  const { history: supported, warning } = adaptAttachments(history, capabilities, `${adapter.label} ${modelName}`);
+  const { messages } = planContext(provider, modelName, systemPrompt, supported, summary);
+  // Сводка ранней части разговора идёт перед свежей историей
+  const withSummary: Message[] = summary
+    ? [{ id: 'conversation-summary', text: `Summary of the earlier conversation:\n${summary}`, sender: 'user', authorName: 'Memory', timestamp: 0 }, ...messages]
+    : messages;
+  // Модели без system prompt получают инструкции первым сообщением пользователя
+  const effectiveHistory: Message[] = !capabilities.systemPrompt && systemPrompt
+    ? [{ id: 'system-prompt', text: systemPrompt, sender: 'user', authorName: 'Instructions', timestamp: 0 }, ...withSummary]
+    : withSummary;
+
+  const request: ProviderRequest = {
+    modelName,
+    systemPrompt,
+    history: effectiveHistory,
+    apiKey: key,
+    temperature: capabilities.temperature ? Math.min(Math.max(temperature, 0), 1.2) : undefined,
+    capabilities,
+    signal
+  };
+  return { request, warning };
+}
 
-    return strictHistory;
+/**
+ * Повторяет запрос при временных ошибках (rate limit, сервер, сеть) с экспоненциальной паузой
+ * и случайным джиттером. Если сервер прислал Retry-After, ждём столько, сколько он просит.
+ * canRetry позволяет запретить повтор, например когда поток уже начал отдавать текст.
+ */
+async function withRetry<T>(run: () => Promise<T>, signal?: AbortSignal, canRetry: () => boolean = () => true): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (e) {
+      if (signal?.aborted || !(e instanceof ProviderError) || !e.retryable || attempt >= MAX_RETRIES || !canRetry()) throw e;
+      const backoff = BASE_RETRY_DELAY_MS * 2 ** attempt * (0.5 + Math.random() / 2);
+      const delay = Math.min(e.retryAfterMs ?? backoff, MAX_RETRY_DELAY_MS);
+      console.warn(`${e.message} — retry ${attempt + 1}/${MAX_RETRIES} in ${Math.round(delay)} ms`);
+      await sleep(delay, signal);
+    }
   }
+}
 
-  // 4. Обработка для Gemini
-  const geminiHistory: any[] = [];
-  mapped.forEach(m => {
-    if (geminiHistory.length > 0 && geminiHistory[geminiHistory.length - 1].role === m.role) {
-      geminiHistory[geminiHistory.length - 1].content += "\n\n" + m.content;
-    } else {
-      geminiHistory.push(m);
+/**
+ * Основная модель ассистента и его запасные, без повторов.
+ */
+export function getAssistantRoutes(assistant: Chat): ModelRoute[] {
+  const routes = [{ provider: assistant.provider, modelName: assistant.modelName }, ...(assistant.fallbacks || [])];
+  return routes.filter((r, i) => (i === 0 || getProvider(r.provider)) && routes.findIndex(o => o.provider === r.provider && o.modelName === r.modelName) === i);
+}
+
+/**
+ * Пробует маршруты по порядку. К следующему переходит, только если текущий упал
+ * временной ошибкой (уже после повторов withRetry) или исчерпанной квотой.
+ * Маршруты без ключа пропускаются, кроме основного — его ошибка объяснит, чего не хватает.
+ */
+export async function runWithFallback<T>(
+  routes: ModelRoute[],
+  apiKeys: Record<string, string>,
+  run: (route: ModelRoute, apiKey: string) => Promise<T>,
+  signal?: AbortSignal
+): Promise<{ result: T; route: ModelRoute; isFallback: boolean }> {
+  const usable = routes.filter((r, i) => i === 0 || !getProvider(r.provider)?.auth || resolveApiKey(r.provider, apiKeys));
+  for (let i = 0; ; i++) {
+    const route = usable[i];
+    try {
+      return { result: await run(route, resolveApiKey(route.provider, apiKeys)), route, isFallback: i > 0 };
+    } catch (e) {
+      const canFallBack = e instanceof ProviderError && (e.retryable || e.kind === 'quota');
+      if (signal?.aborted || !canFallBack || i === usable.length - 1) throw e;
+      console.warn(`${route.provider}/${route.modelName} failed, falling back to ${usable[i + 1].provider}/${usable[i + 1].modelName}`, e);
     }
-  });
+  }
+}
 
-  return geminiHistory;
+export async function getAIResponse(
+  provider: ModelProvider,
+  modelName: string,
+  systemPrompt: string,
+  history: Message[],
+  apiKey: string,
+  temperature: number = 0.7,
+  signal?: AbortSignal,
+  summary?: string
+): Promise<AIResponse> {
+  const { request, warning } = buildProviderRequest(provider, modelName, systemPrompt, history, apiKey, temperature, signal, summary);
+  const startedAt = performance.now();
+  const result = await withRetry(() => getProvider(provider)!.complete(request), signal);
+  const text = cleanResponse(result.text);
+  return { text, usage: buildUsage(provider, request, result, text, startedAt), warning };
 }
 
 /**
- * Очистка ответа от технических тегов протокола SOURCE/END
+ * Usage ответа: токены от провайдера, а если он их не вернул (или ответ прерван) — оценка.
  */
-function cleanResponse(text: string): string {
-  if (!text) return "";
-  return text
-    .replace(/^-+\s*SOURCE:.*?-+\s*$/gim, "")
-    .replace(/^-+\s*END.*?-+\s*$/gim, "")
-    .trim();
+function buildUsage(provider: ModelProvider, request: ProviderRequest, result: ProviderResult, text: string, startedAt: number): MessageUsage {
+  const latencyMs = Math.round(performance.now() - startedAt);
+  if (result.usage) {
+    return { provider, modelName: request.modelName, ...result.usage, latencyMs };
+  }
+  const promptTokens = estimateTokens(request.systemPrompt) + request.history.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+  return { provider, modelName: request.modelName, promptTokens, completionTokens: estimateTokens(text), latencyMs, estimated: true };
 }
 
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-export async function getAIResponse(
+/**
+ * Потоковый вариант getAIResponse: onChunk получает весь накопленный (очищенный) текст
+ * после каждого фрагмента, промис резолвится финальным ответом.
+ * При отмене через signal промис резолвится уже полученной частью текста (возможно пустой).
+ */
+export async function streamAIResponse(
   provider: ModelProvider,
   modelName: string,
   systemPrompt: string,
   history: Message[],
   apiKey: string,
   temperature: number = 0.7,
-  retryCount: number = 0
-): Promise<string> {
-  const safeTemperature = Math.min(Math.max(temperature, 0), 1.2);
-  let rawText = "No response.";
-  
-  if (provider === 'gemini') {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-    const normalizedHistory = mapHistory(history, 'gemini');
-    const contents = normalizedHistory.map((h) => ({
-      role: h.role,
-      parts: [{ text: h.content }]
-    }));
+  onChunk: (partialText: string) => void,
+  signal?: AbortSignal,
+  summary?: string
+): Promise<AIResponse> {
+  const { request, warning } = buildProviderRequest(provider, modelName, systemPrompt, history, apiKey, temperature, signal, summary);
+  const startedAt = performance.now();
+  let started = false;
+  const result = await withRetry(
+    () => getProvider(provider)!.stream(request, (partial) => { started = true; onChunk(cleanResponse(partial)); }),
+    signal,
+    () => !started
+  ).catch((e): ProviderResult => {
+    // Отмена во время паузы перед повтором — как отмена до первого токена
+    if (signal?.aborted) return { text: '' };
+    throw e;
+  });
 
-    try {
-      const response = await ai.models.generateContent({
-        model: modelName,
-        contents: contents,
-        config: {
-          systemInstruction: systemPrompt,
-          temperature: safeTemperature,
-          ...(modelName.includes('pro') ? { thinkingConfig: { thinkingBudget: 32768 } } : {})
-        }
-      });
-      rawText = response.text || "No response.";
-    } catch (e: any) {
-      throw new Error(`Gemini: ${e.message}`);
-    }
-  } else {
-    if (!apiKey) throw new Error(`API Key missing for ${provider.toUpperCase()}`);
-
-    const normalizedHistory = mapHistory(history, provider);
-    const baseUrl = provider === 'openai' 
-        ? 'https://api.openai.com/v1/chat/completions'
-        : 'https://api.deepseek.com/chat/completions';
-
-    const messages = [
-        { role: 'system', content: systemPrompt || "You are a helpful assistant." },
-        ...normalizedHistory.map((h) => ({
-          role: h.role as string,
-          content: h.content
-        }))
-    ];
+  const text = signal?.aborted ? cleanResponse(result.text) : (cleanResponse(result.text) || "No response.");
+  return { text, usage: buildUsage(provider, request, result, text, startedAt), warning };
+}
 
-    try {
-        const payload: any = {
-          model: modelName,
-          messages: messages,
-          max_tokens: 2048 
-        };
-
-        if (modelName !== 'deepseek-reasoner') {
-          payload.temperature = safeTemperature;
-        }
-
-        const res = await fetch(baseUrl, {
-          method: 'POST',
-          headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${apiKey}`
-          },
-          body: JSON.stringify(payload)
-        });
+function pickSummaryModel(apiKeys: Record<string, string>, fallback: ModelRoute): ModelRoute {
+  return SUMMARY_MODELS.find(m => getProvider(m.provider) && resolveApiKey(m.provider, apiKeys)) || fallback;
+}
 
-        const data = await res.json();
-        
-        if (!res.ok) {
-            if (res.status === 401) {
-              throw new Error(`${provider.toUpperCase()}: Authentication Failed. Check API Key.`);
-            }
-            
-            const message = data.error?.message || `Error ${res.status}`;
-            if (res.status === 429 && retryCount < 1) {
-                await sleep(2000); 
-                return getAIResponse(provider, modelName, systemPrompt, history, apiKey, temperature, retryCount + 1);
-            }
-            throw new Error(`${provider.toUpperCase()}: ${message}`);
-        }
-
-        rawText = data.choices?.[0]?.message?.content || "No content.";
-    } catch (error: any) {
-        console.error(`AI Request Failure (${provider}):`, error);
-        throw error;
-    }
-  }
+const toTranscript = (messages: Message[]) => messages
+  .filter(m => m.sender !== 'system')
+  .map(m => `${m.authorName || (m.sender === 'user' ? 'User' : 'Assistant')}: ${m.text.trim()}`)
+  .join('\n\n');
+
+/**
+ * Вливает выпавшие из контекста сообщения в текущую сводку разговора.
+ * Берёт первую дешёвую модель с доступным ключом, иначе модель самого ассистента (fallback).
+ */
+export async function summarizeConversation(
+  previousSummary: string,
+  messages: Message[],
+  apiKeys: Record<string, string>,
+  fallback: ModelRoute,
+  signal?: AbortSignal
+): Promise<AIResponse> {
+  const { provider, modelName } = pickSummaryModel(apiKeys, fallback);
+  const input = `${previousSummary ? `EXISTING SUMMARY:\n${previousSummary}\n\n` : ''}NEW MESSAGES:\n${toTranscript(messages)}`;
+
+  const { text: summary, usage } = await getAIResponse(
+    provider, modelName,
+    "You maintain the long-term memory of a conversation. Merge the existing summary and the new messages into one concise summary. Keep names, facts, decisions, open questions and stated preferences; drop small talk. Write in the language of the conversation. Output ONLY the summary.",
+    [{ id: 'summary-input', text: input, sender: 'user', timestamp: Date.now() }],
+    resolveApiKey(provider, apiKeys), 0.3, signal
+  );
+  return { text: summary.trim(), usage };
+}
 
-  return cleanResponse(rawText);
+/**
+ * Итог ветки для возврата в родительский чат: к чему пришли, без пересказа всего обсуждения.
+ */
+export async function summarizeThread(
+  threadName: string,
+  messages: Message[],
+  apiKeys: Record<string, string>,
+  fallback: ModelRoute,
+  signal?: AbortSignal
+): Promise<AIResponse> {
+  const { provider, modelName } = pickSummaryModel(apiKeys, fallback);
+  const { text: summary, usage } = await getAIResponse(
+    provider, modelName,
+    "You close a side thread of a conversation and report back to the main chat. Summarize the outcome: conclusions, decisions, answers found and open questions. Be brief, use a short list if it helps. Write in the language of the conversation. Output ONLY the summary.",
+    [{ id: 'thread-input', text: `THREAD "${threadName}":\n${toTranscript(messages)}`, sender: 'user', timestamp: Date.now() }],
+    resolveApiKey(provider, apiKeys), 0.3, signal
+  );
+  return { text: summary.trim(), usage };
 }
 
-export async function discoverRemoteOccultPersonas(settings: { openaiKey: string; deepseekKey: string; }): Promise<Partial<Chat>[]> {
+export async function discoverRemoteOccultPersonas(apiKeys: Record<string, string>): Promise<Partial<Chat>[]> {
   const found: Partial<Chat>[] = [];
 
-  if (settings.openaiKey) {
+  if (apiKeys.openai) {
     const headers = {
-      'Authorization': `Bearer ${settings.openaiKey}`,
+      'Authorization': `Bearer ${apiKeys.openai}`,
       'OpenAI-Beta': 'assistants=v2',
       'Content-Type': 'application/json'
     };
@@ -229,7 +324,7 @@ export async function discoverRemoteOccultPersonas(settings: { openaiKey: string
     }
   }
 
-  if (settings.deepseekKey) {
+  if (apiKeys.deepseek) {
     found.push({
       id: `ds-v3-discovery`,
       name: "DeepSeek Assistant",
@@ -0,0 +1,210 @@
+import { ArenaRunSettings, Chat, Message, ModelPriceOverrides, UsageEntry } from '../types';
+import { getAIResponse } from './aiService';
+import { resolveApiKey } from './providers';
+import { estimateTokens } from './providers/common';
+import { formatCost, recordUsage, usageCost } from './usageService';
+
+export const DEFAULT_TURN_DELAY_MS = 2500;
+
+export interface ArenaSpeaker {
+  id: string;
+  name: string;
+}
+
+interface NextSpeakerContext {
+  allChats: Chat[];
+  apiKeys: Record<string, string>;
+  globalSystemPrompt: string;
+}
+
+function lastSpeakerId(messages: Message[]): string | undefined {
+  return [...messages].reverse().find(m => m.sender === 'ai' && m.authorId)?.authorId;
+}
+
+function roundRobin(speakers: ArenaSpeaker[], messages: Message[]): ArenaSpeaker {
+  const lastIdx = speakers.findIndex(s => s.id === lastSpeakerId(messages));
+  return speakers[(lastIdx + 1) % speakers.length];
+}
+
+/** Кандидаты без последнего выступавшего, чтобы никто не говорил дважды подряд */
+function withoutLastSpeaker(speakers: ArenaSpeaker[], messages: Message[]): ArenaSpeaker[] {
+  const lastId = lastSpeakerId(messages);
+  const rest = speakers.filter(s => s.id !== lastId);
+  return rest.length > 0 ? rest : speakers;
+}
+
+function weightedPick(speakers: ArenaSpeaker[], weights: Record<string, number>): ArenaSpeaker {
+  const weightOf = (s: ArenaSpeaker) => Math.max(weights[s.id] ?? 1, 0);
+  const total = speakers.reduce((sum, s) => sum + weightOf(s), 0);
+  if (total <= 0) return speakers[Math.floor(Math.random() * speakers.length)];
+  let roll = Math.random() * total;
+  for (const s of speakers) {
+    roll -= weightOf(s);
+    if (roll < 0) return s;
+  }
+  return speakers[speakers.length - 1];
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Регулярка для @упоминаний по списку имён. Длинные имена идут первыми, чтобы «@Ann» не перекрыла «@Anna».
+ */
+export function mentionPattern(names: string[]): RegExp | null {
+  const unique = Array.from(new Set(names.map(n => n.trim()).filter(Boolean))).sort((a, b) => b.length - a.length);
+  if (unique.length === 0) return null;
+  return new RegExp(`(?<![\\p{L}\\p{N}])@(${unique.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+/** Упомянутые через @ участники в порядке первого упоминания, без повторов */
+export function findMentions(text: string, speakers: ArenaSpeaker[]): ArenaSpeaker[] {
+  const pattern = mentionPattern(speakers.map(s => s.name));
+  if (!pattern) return [];
+  const found: ArenaSpeaker[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const speaker = speakers.find(s => s.name.trim().toLowerCase() === match[1].toLowerCase());
+    if (speaker && !found.includes(speaker)) found.push(speaker);
+  }
+  return found;
+}
+
+/** Участник, чьё имя чаще всего встречается в последнем сообщении; null — никого не упомянули */
+function mostMentioned(speakers: ArenaSpeaker[], messages: Message[]): ArenaSpeaker | null {
+  const last = [...messages].reverse().find(m => m.sender !== 'system');
+  if (!last) return null;
+
+  let best: ArenaSpeaker | null = null;
+  let bestCount = 0;
+  for (const s of withoutLastSpeaker(speakers, messages)) {
+    const count = (last.text.match(new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(s.name)}(?=$|[^\\p{L}\\p{N}])`, 'giu')) || []).length;
+    if (count > bestCount) {
+      best = s;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/** Из ответа модератора берём самое длинное совпавшее имя, чтобы «Ann» не перекрыла «Anna» */
+function matchSpeakerName(reply: string, speakers: ArenaSpeaker[]): ArenaSpeaker | null {
+  const text = reply.toLowerCase();
+  const matches = speakers.filter(s => text.includes(s.name.toLowerCase()));
+  return matches.sort((a, b) => b.name.length - a.name.length)[0] || null;
+}
+
+async function askModerator(chat: Chat, speakers: ArenaSpeaker[], messages: Message[], ctx: NextSpeakerContext, signal?: AbortSignal): Promise<ArenaSpeaker | null> {
+  const moderator = ctx.allChats.find(c => c.id === chat.moderatorId);
+  if (!moderator) return null;
+
+  const candidates = withoutLastSpeaker(speakers, messages);
+  const systemPrompt = `${moderator.systemPrompt}\n\n${ctx.globalSystemPrompt}\n\nYou are moderating the group discussion "${chat.name}". Decide who should speak next. Reply with the exact name of one participant and nothing else.`;
+  const question: Message = {
+    id: 'moderator-question',
+    text: `Participants: ${candidates.map(s => s.name).join(', ')}.\nWho should speak next?`,
+    sender: 'user',
+    authorName: 'Arena',
+    timestamp: Date.now()
+  };
+
+  const { text: reply, usage } = await getAIResponse(
+    moderator.provider, moderator.modelName, systemPrompt, [...messages, question],
+    resolveApiKey(moderator.provider, ctx.apiKeys), 0.2, signal
+  );
+  recordUsage(usage, { kind: 'moderator', chatId: chat.id, assistantId: moderator.id, assistantName: moderator.name });
+  return matchSpeakerName(reply, candidates);
+}
+
+/**
+ * Блок Арены для системного промпта участника: тема/правила группы и его роль в ней.
+ * Пустая строка, если чат не Арена или отвечает сама группа.
+ */
+export function buildArenaPrompt(arena: Chat, participant: Chat): string {
+  if (!arena.isGroup || participant.id === arena.id) return '';
+  const role = arena.participantRoles?.[participant.id]?.trim();
+  return [
+    `--- ARENA: ${arena.name.toUpperCase()} ---`,
+    `Topic and rules:\n${arena.systemPrompt}`,
+    role ? `Your role in this arena:\n${role}` : '',
+    `--- END ARENA ---`
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Системный промпт, с которым ассистент отвечает в чате: его промпт + тема и роль в Арене + глобальная инструкция.
+ * Один для запросов, оценки контекста и экспорта, чтобы они не расходились.
+ */
+export const buildSystemPrompt = (chat: Chat, assistant: Chat, globalSystemPrompt: string) =>
+  [assistant.systemPrompt, buildArenaPrompt(chat, assistant), globalSystemPrompt].filter(Boolean).join('\n\n');
+
+/**
+ * Выбирает следующего выступающего в Арене по стратегии группы.
+ * Если стратегия не дала результата (никого не упомянули, модератор недоступен) — round-robin.
+ * signal прерывает запрос к модератору; после отмены вызывающий должен проверить signal.aborted сам.
+ */
+export async function chooseNextSpeaker(
+  chat: Chat,
+  speakers: ArenaSpeaker[],
+  messages: Message[],
+  ctx: NextSpeakerContext,
+  signal?: AbortSignal
+): Promise<ArenaSpeaker> {
+  switch (chat.turnStrategy) {
+    case 'random': {
+      const pool = withoutLastSpeaker(speakers, messages);
+      return pool[Math.floor(Math.random() * pool.length)];
+    }
+    case 'weighted':
+      return weightedPick(withoutLastSpeaker(speakers, messages), chat.turnWeights || {});
+    case 'most-mentioned':
+      return mostMentioned(speakers, messages) || roundRobin(speakers, messages);
+    case 'moderator':
+      try {
+        return (await askModerator(chat, speakers, messages, ctx, signal)) || roundRobin(speakers, messages);
+      } catch (e) {
+        if (!signal?.aborted) console.error('Moderator failed', e);
+        return roundRobin(speakers, messages);
+      }
+    default:
+      return roundRobin(speakers, messages);
+  }
+}
+
+/**
+ * Проверяет ограничения запуска Auto Flow, начатого в startedAt.
+ * ledger — журнал расходов: лимиты токенов и трат считаются по всем его записям этой Арены за запуск.
+ * Возвращает причину остановки для системного сообщения или null, если можно продолжать.
+ */
+export function getRunStopReason(settings: ArenaRunSettings = {}, chat: Chat, startedAt: number, now: number, prices: ModelPriceOverrides = {}, ledger: UsageEntry[] = []): string | null {
+  const { messages } = chat;
+  const runMessages = messages.filter(m => m.timestamp >= startedAt);
+  const last = runMessages[runMessages.length - 1];
+  if (last?.sender === 'system' && last.isError) return 'a turn failed with an error.';
+
+  const turns = runMessages.filter(m => m.sender === 'ai' && m.authorId);
+  const phrase = settings.stopPhrase?.trim();
+  if (phrase) {
+    const hit = turns.find(m => m.text.toLowerCase().includes(phrase.toLowerCase()));
+    if (hit) return `${hit.authorName || 'a participant'} said the stop phrase "${phrase}".`;
+  }
+  if (settings.maxTurns && turns.length >= settings.maxTurns) {
+    return `reached the limit of ${settings.maxTurns} turns.`;
+  }
+  // Ходы, модератор, сжатие памяти — каждый оплаченный вызов за запуск есть в журнале
+  const runUsage = ledger.filter(e => e.chatId === chat.id && e.timestamp >= startedAt);
+  if (settings.maxTokens) {
+    // Промпт растёт с каждым ходом и быстро обгоняет ответы, поэтому считаем оба; для старых сообщений без usage — оценка по тексту
+    const estimated = turns.filter(m => !m.usage).reduce((sum, m) => sum + estimateTokens(m.text), 0);
+    const used = runUsage.reduce((sum, u) => sum + u.promptTokens + u.completionTokens, estimated);
+    if (used >= settings.maxTokens) return `token budget reached (~${used.toLocaleString()} of ${settings.maxTokens.toLocaleString()}).`;
+  }
+  if (settings.maxSpend) {
+    const spent = runUsage.reduce((sum, u) => sum + (usageCost(u, prices) || 0), 0);
+    if (spent >= settings.maxSpend) return `spend limit reached (${formatCost(spent)} of ${formatCost(settings.maxSpend)}).`;
+  }
+  if (settings.maxMinutes && now - startedAt >= settings.maxMinutes * 60000) {
+    return `time limit of ${settings.maxMinutes} min reached.`;
+  }
+  return null;
+}
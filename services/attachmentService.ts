@@ -0,0 +1,69 @@
+import { Attachment } from '../types';
+
+// Больше не пускаем: вложения хранятся прямо в сообщениях и уходят в каждом запросе
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_TEXT_CHARS = 200_000;
+// Длинная сторона картинки; провайдеры всё равно уменьшают до ~1500px
+const MAX_IMAGE_SIDE = 1568;
+const IMAGE_QUALITY = 0.85;
+
+const TEXT_EXTENSIONS = /\.(txt|md|markdown|csv|tsv|json|xml|ya?ml|html?|css|js|jsx|ts|tsx|py|java|c|cpp|h|cs|go|rs|rb|php|sh|sql|log|ini|toml)$/i;
+
+/** Значение атрибута accept у выбора файла */
+export const ATTACHMENT_ACCEPT = 'image/*,application/pdf,text/*,.md,.csv,.json,.xml,.yaml,.yml,.ts,.tsx,.js,.jsx,.py,.java,.go,.rs,.sql,.log';
+
+const readAs = (file: Blob, method: 'readAsDataURL' | 'readAsText') => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader[method](file);
+});
+
+/**
+ * Уменьшает картинку до MAX_IMAGE_SIDE и перекодирует в JPEG. GIF и PNG с прозрачностью
+ * тоже становятся JPEG — для модели это не важно, а место в базе экономится в разы.
+ */
+async function compressImage(file: File): Promise<{ data: string; mimeType: string }> {
+  const source = await readAs(file, 'readAsDataURL');
+  const img = new Image();
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve();
+    img.onerror = () => reject(new Error(`Can't read image "${file.name}".`));
+    img.src = source;
+  });
+
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(img.width, img.height));
+  if (scale === 1 && file.type === 'image/jpeg') return { data: source, mimeType: file.type };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return { data: canvas.toDataURL('image/jpeg', IMAGE_QUALITY), mimeType: 'image/jpeg' };
+}
+
+/**
+ * Читает файл во вложение. Бросает Error с понятным текстом, если файл не подходит.
+ */
+export async function readAttachment(file: File): Promise<Attachment> {
+  if (file.size > MAX_FILE_BYTES) throw new Error(`"${file.name}" is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB.`);
+  const base = { id: `att-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, name: file.name || 'pasted-image', size: file.size };
+
+  if (file.type.startsWith('image/')) {
+    return { ...base, kind: 'image', ...(await compressImage(file)) };
+  }
+  if (file.type === 'application/pdf' || /\.pdf$/i.test(file.name)) {
+    return { ...base, kind: 'pdf', mimeType: 'application/pdf', data: await readAs(file, 'readAsDataURL') };
+  }
+  if (file.type.startsWith('text/') || file.type === 'application/json' || TEXT_EXTENSIONS.test(file.name)) {
+    const text = await readAs(file, 'readAsText');
+    if (text.length > MAX_TEXT_CHARS) throw new Error(`"${file.name}" is too long (over ${MAX_TEXT_CHARS.toLocaleString()} characters).`);
+    return { ...base, kind: 'text', mimeType: file.type || 'text/plain', data: text };
+  }
+  throw new Error(`"${file.name}" is not supported. Attach images, PDF or text files.`);
+}
+
+export const formatFileSize = (bytes: number) => bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
@@ -0,0 +1,297 @@
+import { GoogleGenAI } from "@google/genai";
+import { Chat, Message, MessageUsage } from '../types';
+import { resolveApiKey } from './providers';
+import { errorFromResponse, toProviderError } from './providers/errors';
+import { loadEmbeddings, saveEmbeddings, EmbeddingRecord } from './storageService';
+import { tokenize } from './searchService';
+import { estimateTokens } from './providers/common';
+import { recordUsage, UsageSource } from './usageService';
+
+// Длинные ответы режем: смысл сообщения обычно понятен по началу, а лимиты API не резиновые
+const MAX_EMBED_CHARS = 2000;
+const BATCH_SIZE = 64;
+const LOCAL_DIMENSIONS = 512;
+const SNIPPET_CHARS = 140;
+
+/**
+ * Источник эмбеддингов. Чтобы добавить свой, достаточно зарегистрировать его через registerEmbeddingProvider.
+ */
+export interface EmbeddingProvider {
+  id: string;
+  label: string;
+  isAvailable(apiKeys: Record<string, string>): boolean;
+  embed(texts: string[], apiKeys: Record<string, string>, signal?: AbortSignal): Promise<EmbeddingResult>;
+}
+
+export interface EmbeddingResult {
+  vectors: number[][];
+  usage?: MessageUsage; // нет у бесплатного локального провайдера
+}
+
+export interface SemanticHit {
+  chatId: string;
+  messageId: string;
+  score: number; // косинусная близость 0..1
+  snippet: string;
+}
+
+export interface RelatedChat {
+  chatId: string;
+  score: number;
+}
+
+function hashString(text: string, seed = 5381): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+// Векторы нормализованы, поэтому косинус — просто скалярное произведение
+const cosine = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * (b[i] || 0), 0);
+
+/**
+ * Офлайн-вариант без модели: хеширование слов и их триграмм в вектор фиксированной длины.
+ * Ловит однокоренные слова («cache» и «caching»), но не синонимы — для них нужен настоящий провайдер.
+ */
+const localHashProvider: EmbeddingProvider = {
+  id: 'local-hash',
+  label: 'Local (offline)',
+  isAvailable: () => true,
+  embed: async (texts) => ({ vectors: texts.map(text => {
+    const vector = new Array(LOCAL_DIMENSIONS).fill(0);
+    const add = (feature: string, weight: number) => {
+      const h = hashString(feature);
+      // Знак из второго хеша гасит систематические коллизии
+      vector[h % LOCAL_DIMENSIONS] += (hashString(feature, 7) & 1 ? 1 : -1) * weight;
+    };
+    tokenize(text).forEach(word => {
+      add(word, 2);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) add(padded.slice(i, i + 3), 1);
+    });
+    return normalize(vector);
+  }) })
+};
+
+const openaiEmbeddingProvider: EmbeddingProvider = {
+  id: 'openai',
+  label: 'OpenAI (text-embedding-3-small)',
+  isAvailable: (apiKeys) => !!resolveApiKey('openai', apiKeys),
+  embed: async (texts, apiKeys, signal) => {
+    const startedAt = performance.now();
+    try {
+      const res = await fetch('https://api.openai.com/v1/embeddings', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${resolveApiKey('openai', apiKeys)}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: 'text-embedding-3-small', input: texts }),
+        signal
+      });
+      if (!res.ok) throw await errorFromResponse('OpenAI', res);
+      const data = await res.json();
+      return {
+        vectors: data.data.map((d: any) => normalize(d.embedding)),
+        usage: { provider: 'openai', modelName: 'text-embedding-3-small', promptTokens: data.usage?.prompt_tokens ?? 0, completionTokens: 0, latencyMs: Math.round(performance.now() - startedAt) }
+      };
+    } catch (e) {
+      throw toProviderError('OpenAI', e);
+    }
+  }
+};
+
+const geminiEmbeddingProvider: EmbeddingProvider = {
+  id: 'gemini',
+  label: 'Gemini (text-embedding-004)',
+  isAvailable: (apiKeys) => !!resolveApiKey('gemini', apiKeys),
+  embed: async (texts, apiKeys, signal) => {
+    const startedAt = performance.now();
+    try {
+      const ai = new GoogleGenAI({ apiKey: resolveApiKey('gemini', apiKeys) });
+      const response = await ai.models.embedContent({ model: 'text-embedding-004', contents: texts, config: { abortSignal: signal } });
+      // Gemini не возвращает число токенов для эмбеддингов — считаем оценочно
+      return {
+        vectors: (response.embeddings || []).map(e => normalize(e.values || [])),
+        usage: { provider: 'gemini', modelName: 'text-embedding-004', promptTokens: texts.reduce((sum, t) => sum + estimateTokens(t), 0), completionTokens: 0, latencyMs: Math.round(performance.now() - startedAt), estimated: true }
+      };
+    } catch (e) {
+      throw toProviderError('Gemini', e);
+    }
+  }
+};
+
+const embeddingProviders = new Map<string, EmbeddingProvider>();
+
+export function registerEmbeddingProvider(provider: EmbeddingProvider) {
+  embeddingProviders.set(provider.id, provider);
+}
+
+[localHashProvider, openaiEmbeddingProvider, geminiEmbeddingProvider].forEach(registerEmbeddingProvider);
+
+export function listEmbeddingProviders(): EmbeddingProvider[] {
+  return Array.from(embeddingProviders.values());
+}
+
+/**
+ * Выбранный провайдер, если для него есть ключ, иначе локальный — он работает всегда.
+ */
+export function getEmbeddingProvider(id: string | undefined, apiKeys: Record<string, string>): EmbeddingProvider {
+  const preferred = id ? embeddingProviders.get(id) : undefined;
+  return preferred?.isAvailable(apiKeys) ? preferred : localHashProvider;
+}
+
+// ---------- Индекс ----------
+
+// Векторы загруженного провайдера: ключ chatId + messageId
+let loadedProviderId: string | null = null;
+let vectors = new Map<string, EmbeddingRecord>();
+let syncQueue: Promise<void> = Promise.resolve();
+
+const recordKey = (chatId: string, messageId: string) => `${chatId}\u0000${messageId}`;
+const embeddableText = (message: Message) => message.text.trim().slice(0, MAX_EMBED_CHARS);
+const isEmbeddable = (message: Message) => message.sender !== 'system' && embeddableText(message).length > 0;
+
+const SEARCH_USAGE_SOURCE: UsageSource = { kind: 'embedding', assistantId: 'semantic-search', assistantName: 'Semantic search' };
+
+/**
+ * Расход пачки делим между чатами пропорционально длине их текстов, чтобы дашборд показывал, чьи сообщения векторизовали.
+ */
+function recordBatchUsage(usage: MessageUsage, batch: { chatId: string; text: string }[], chats: Chat[]) {
+  const totalChars = batch.reduce((sum, p) => sum + p.text.length, 0) || 1;
+  const charsByChat = new Map<string, number>();
+  batch.forEach(p => charsByChat.set(p.chatId, (charsByChat.get(p.chatId) || 0) + p.text.length));
+  charsByChat.forEach((chars, chatId) => {
+    const share = chars / totalChars;
+    recordUsage(
+      { ...usage, promptTokens: Math.round(usage.promptTokens * share), latencyMs: Math.round(usage.latencyMs * share) },
+      { kind: 'embedding', chatId, assistantId: chatId, assistantName: chats.find(c => c.id === chatId)?.name || 'Deleted chat' }
+    );
+  });
+}
+
+async function syncNow(provider: EmbeddingProvider, chats: Chat[], apiKeys: Record<string, string>, signal?: AbortSignal) {
+  if (loadedProviderId !== provider.id) {
+    const records = await loadEmbeddings(provider.id);
+    vectors = new Map(records.map(r => [recordKey(r.chatId, r.messageId), r]));
+    loadedProviderId = provider.id;
+  }
+
+  const live = new Set<string>();
+  const pending: { chatId: string; messageId: string; text: string; textHash: string }[] = [];
+  chats.forEach(chat => chat.messages.forEach(m => {
+    if (!isEmbeddable(m)) return;
+    const key = recordKey(chat.id, m.id);
+    live.add(key);
+    const text = embeddableText(m);
+    const textHash = hashString(text).toString(36);
+    if (vectors.get(key)?.textHash !== textHash) pending.push({ chatId: chat.id, messageId: m.id, text, textHash });
+  }));
+
+  // Из памяти убираем только после записи в базу, иначе при сбое удаление потеряется и записи останутся сиротами
+  const staleKeys = Array.from(vectors.keys()).filter(key => !live.has(key));
+  if (staleKeys.length > 0) {
+    await saveEmbeddings([], staleKeys.map(key => {
+      const r = vectors.get(key)!;
+      return [r.providerId, r.chatId, r.messageId] as [string, string, string];
+    }));
+    staleKeys.forEach(key => vectors.delete(key));
+  }
+
+  // Сохраняем после каждой пачки: прерванная синхронизация не теряет уже оплаченные векторы
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    if (signal?.aborted) break;
+    const batch = pending.slice(i, i + BATCH_SIZE);
+    const embedded = await provider.embed(batch.map(p => p.text), apiKeys, signal);
+    if (embedded.usage) recordBatchUsage(embedded.usage, batch, chats);
+    const records = batch.map((p, j): EmbeddingRecord => ({ providerId: provider.id, chatId: p.chatId, messageId: p.messageId, textHash: p.textHash, vector: embedded.vectors[j] }));
+    records.forEach(r => vectors.set(recordKey(r.chatId, r.messageId), r));
+    await saveEmbeddings(records);
+  }
+}
+
+/**
+ * Доводит индекс до текущего состояния чатов: векторизует новые и изменённые сообщения, удаляет пропавшие.
+ * chats — всегда полный список: вектор сообщения, которого в нём нет, считается удалённым. Отфильтрованный
+ * список (например, без архива) стёр бы оплаченные векторы, и следующая синхронизация заплатила бы за них снова.
+ * Синхронизации идут по очереди, чтобы одно сообщение не отправлялось в API дважды.
+ */
+export function syncEmbeddings(provider: EmbeddingProvider, chats: Chat[], apiKeys: Record<string, string>, signal?: AbortSignal): Promise<void> {
+  const run = syncQueue.then(() => syncNow(provider, chats, apiKeys, signal));
+  syncQueue = run.catch(() => undefined);
+  return run;
+}
+
+function snippetOf(chats: Chat[], chatId: string, messageId: string): string {
+  const text = chats.find(c => c.id === chatId)?.messages.find(m => m.id === messageId)?.text || '';
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > SNIPPET_CHARS ? `${flat.slice(0, SNIPPET_CHARS)}…` : flat;
+}
+
+/**
+ * Чаты, ближайшие к запросу по смыслу: по одному лучшему сообщению на чат.
+ * Архив отсекается только при подсчёте — индекс всегда синхронизируется по всем чатам.
+ */
+export async function semanticSearch(
+  query: string,
+  chats: Chat[],
+  provider: EmbeddingProvider,
+  apiKeys: Record<string, string>,
+  includeArchived: boolean,
+  limit = 20,
+  signal?: AbortSignal
+): Promise<SemanticHit[]> {
+  if (!query.trim()) return [];
+  await syncEmbeddings(provider, chats, apiKeys, signal);
+  const { vectors: [queryVector], usage } = await provider.embed([query.trim()], apiKeys, signal);
+  if (usage) recordUsage(usage, SEARCH_USAGE_SOURCE);
+
+  const searchable = new Set(chats.filter(c => includeArchived || !c.tags.includes('#archived')).map(c => c.id));
+  const best = new Map<string, { messageId: string; score: number }>();
+  vectors.forEach(r => {
+    if (!searchable.has(r.chatId)) return;
+    const score = cosine(queryVector, r.vector);
+    if (score > (best.get(r.chatId)?.score ?? 0)) best.set(r.chatId, { messageId: r.messageId, score });
+  });
+
+  return Array.from(best.entries())
+    .map(([chatId, { messageId, score }]) => ({ chatId, messageId, score, snippet: snippetOf(chats, chatId, messageId) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// Средний вектор каждой переписки за один проход по индексу
+function chatCentroids(): Map<string, number[]> {
+  const sums = new Map<string, number[]>();
+  vectors.forEach(r => {
+    const sum = sums.get(r.chatId);
+    if (sum) r.vector.forEach((v, i) => { sum[i] += v; });
+    else sums.set(r.chatId, [...r.vector]);
+  });
+  sums.forEach((sum, chatId) => sums.set(chatId, normalize(sum)));
+  return sums;
+}
+
+/**
+ * Похожие чаты: сравниваем средние векторы переписок.
+ */
+export async function findRelatedChats(
+  chatId: string,
+  chats: Chat[],
+  provider: EmbeddingProvider,
+  apiKeys: Record<string, string>,
+  limit = 5,
+  signal?: AbortSignal
+): Promise<RelatedChat[]> {
+  await syncEmbeddings(provider, chats, apiKeys, signal);
+  const centroids = chatCentroids();
+  const target = centroids.get(chatId);
+  if (!target) return [];
+  return chats
+    .filter(c => c.id !== chatId && !c.tags.includes('#archived') && centroids.has(c.id))
+    .map(c => ({ chatId: c.id, score: cosine(target, centroids.get(c.id)!) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,274 @@
+import { Chat, Message } from '../types';
+import { buildSystemPrompt } from './arenaService';
+
+export type ExportFormat = 'markdown' | 'html' | 'pdf' | 'jsonl';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; icon: string; hint: string }[] = [
+  { id: 'markdown', label: 'Markdown', icon: 'fa-brands fa-markdown', hint: 'Readable text with authors and times' },
+  { id: 'html', label: 'HTML', icon: 'fa-solid fa-file-code', hint: 'Standalone styled page' },
+  { id: 'pdf', label: 'PDF', icon: 'fa-solid fa-file-pdf', hint: 'Opens the print dialog, choose "Save as PDF"' },
+  { id: 'jsonl', label: 'Fine-tuning JSONL', icon: 'fa-solid fa-brain', hint: 'OpenAI chat format, one line per assistant' }
+];
+
+/** Глава экспорта: чат и его глубина в дереве веток (0 — выбранный чат) */
+interface ExportEntry {
+  chat: Chat;
+  depth: number;
+}
+
+export function downloadFile(content: string, filename: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export const hasSubThreads = (chatIds: string[], allChats: Chat[]) => allChats.some(c => !!c.parentId && chatIds.includes(c.parentId));
+
+/**
+ * Выбранные чаты в порядке выбора, за каждым — его ветки (в глубину), если includeThreads.
+ * Ветка, выбранная и сама по себе, попадает в экспорт один раз.
+ */
+function collectEntries(chatIds: string[], allChats: Chat[], includeThreads: boolean): ExportEntry[] {
+  const seen = new Set<string>();
+  const entries: ExportEntry[] = [];
+  const visit = (chat: Chat, depth: number) => {
+    if (seen.has(chat.id)) return;
+    seen.add(chat.id);
+    entries.push({ chat, depth });
+    if (!includeThreads) return;
+    allChats
+      .filter(c => c.parentId === chat.id)
+      .sort((a, b) => (a.lastTimestamp || 0) - (b.lastTimestamp || 0))
+      .forEach(child => visit(child, depth + 1));
+  };
+  chatIds.forEach(id => {
+    const chat = allChats.find(c => c.id === id);
+    if (chat) visit(chat, 0);
+  });
+  return entries;
+}
+
+const authorOf = (msg: Message, chat: Chat) =>
+  msg.sender === 'system' ? 'System' : msg.authorName || (msg.sender === 'user' ? 'You' : chat.name);
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+// Откуда пришло сообщение, если не из этого чата
+function originNote(msg: Message): string | null {
+  if (msg.forwardedFrom) return `Forwarded from ${msg.forwardedFrom.authorName} (${msg.forwardedFrom.chatName})`;
+  if (msg.mergedFrom) return `Summary of thread ${msg.mergedFrom.chatName}`;
+  return null;
+}
+
+// Подзаголовок главы: чья это ветка и на какой модели шёл разговор
+function chatMeta(chat: Chat, allChats: Chat[]): string {
+  const parent = chat.parentId ? allChats.find(c => c.id === chat.parentId) : undefined;
+  return [parent ? `Thread of ${parent.name}` : null, chat.isGroup ? 'Arena' : `${chat.provider} / ${chat.modelName}`].filter(Boolean).join(' • ');
+}
+
+// ---------- Markdown ----------
+
+function chatToMarkdown({ chat, depth }: ExportEntry, allChats: Chat[]): string {
+  const lines = [`${'#'.repeat(Math.min(depth + 1, 6))} ${chat.name}`, ''];
+  lines.push(`_${chatMeta(chat, allChats)}_`, '');
+  if (chat.systemPrompt.trim()) lines.push('> **Instructions:** ' + chat.systemPrompt.trim().replace(/\n/g, '\n> '), '');
+
+  chat.messages.forEach(msg => {
+    if (msg.sender === 'system') {
+      lines.push(`> _${msg.text.replace(/\n/g, ' ')}_`, '');
+      return;
+    }
+    lines.push(`**${authorOf(msg, chat)}** · ${formatTimestamp(msg.timestamp)}`, '');
+    const origin = originNote(msg);
+    if (origin) lines.push(`> ${origin}`, '');
+    if (msg.text) lines.push(msg.text, '');
+    msg.attachments?.forEach(a => lines.push(`📎 ${a.name}`));
+    if (msg.attachments?.length) lines.push('');
+  });
+  return lines.join('\n');
+}
+
+const toMarkdown = (entries: ExportEntry[], allChats: Chat[]) =>
+  entries.map(e => chatToMarkdown(e, allChats)).join('\n---\n\n');
+
+// ---------- HTML ----------
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const HTML_STYLES = `
+  body { font: 15px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; background: #f2f2f7; color: #1c1c1e; margin: 0; padding: 32px 16px; }
+  main { max-width: 720px; margin: 0 auto; }
+  section { margin-bottom: 48px; }
+  h1, h2, h3, h4, h5, h6 { margin: 0 0 4px; }
+  .meta { color: #8e8e93; font-size: 12px; margin-bottom: 16px; }
+  .prompt { background: #fff; border-left: 3px solid #af52de; padding: 8px 12px; border-radius: 8px; font-size: 13px; white-space: pre-wrap; margin-bottom: 16px; }
+  .msg { display: flex; flex-direction: column; margin: 12px 0; }
+  .msg.user { align-items: flex-end; }
+  .bubble { max-width: 80%; padding: 10px 14px; border-radius: 18px; background: #fff; white-space: pre-wrap; word-wrap: break-word; box-shadow: 0 1px 1px rgba(0,0,0,.05); }
+  .user .bubble { background: #007aff; color: #fff; }
+  .author { font-size: 11px; font-weight: 700; color: #8e8e93; margin: 0 8px 2px; }
+  .origin { font-size: 11px; font-weight: 700; opacity: .75; border-left: 2px solid currentColor; padding-left: 6px; margin-bottom: 4px; }
+  .system { text-align: center; color: #8e8e93; font-size: 12px; font-style: italic; margin: 12px 0; }
+  .attachment { display: block; font-size: 12px; margin-top: 6px; }
+  .attachment img { max-width: 240px; border-radius: 12px; display: block; }
+  @media (prefers-color-scheme: dark) {
+    body { background: #000; color: #fff; }
+    .bubble, .prompt { background: #1c1c1e; }
+  }
+  @media print {
+    body { background: #fff; padding: 0; }
+    section { break-before: page; }
+    section:first-child { break-before: auto; }
+    .bubble { box-shadow: none; border: 1px solid #e5e5ea; }
+  }
+`;
+
+function messageToHtml(msg: Message, chat: Chat): string {
+  if (msg.sender === 'system') return `<div class="system">${escapeHtml(msg.text)}</div>`;
+  const origin = originNote(msg);
+  const attachments = (msg.attachments || []).map(a => a.kind === 'image'
+    ? `<span class="attachment"><img src="${a.data}" alt="${escapeHtml(a.name)}"></span>`
+    : `<span class="attachment">📎 ${escapeHtml(a.name)}</span>`
+  ).join('');
+  return `<div class="msg ${msg.sender}">
+  <div class="author">${escapeHtml(authorOf(msg, chat))} · ${escapeHtml(formatTimestamp(msg.timestamp))}</div>
+  <div class="bubble">${origin ? `<div class="origin">${escapeHtml(origin)}</div>` : ''}${escapeHtml(msg.text)}${attachments}</div>
+</div>`;
+}
+
+function chatToHtml({ chat, depth }: ExportEntry, allChats: Chat[]): string {
+  const tag = `h${Math.min(depth + 1, 6)}`;
+  return `<section>
+<${tag}>${escapeHtml(chat.name)}</${tag}>
+<div class="meta">${escapeHtml(chatMeta(chat, allChats))}</div>
+${chat.systemPrompt.trim() ? `<div class="prompt">${escapeHtml(chat.systemPrompt.trim())}</div>` : ''}
+${chat.messages.map(m => messageToHtml(m, chat)).join('\n')}
+</section>`;
+}
+
+const toHtml = (entries: ExportEntry[], allChats: Chat[], title: string) => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+${entries.map(e => chatToHtml(e, allChats)).join('\n')}
+</main>
+</body>
+</html>`;
+
+// Safari на iOS не всегда присылает afterprint — тогда iframe уберёт таймер или следующий экспорт
+const PRINT_FRAME_TIMEOUT_MS = 60000;
+let printFrame: HTMLIFrameElement | null = null;
+let printFrameTimer: number | undefined;
+
+function removePrintFrame() {
+  window.clearTimeout(printFrameTimer);
+  printFrame?.remove();
+  printFrame = null;
+}
+
+/**
+ * PDF строит сам браузер: печатаем HTML из скрытого iframe, пользователь выбирает «Сохранить как PDF».
+ */
+function printHtml(html: string) {
+  removePrintFrame();
+  const frame = printFrame = document.createElement('iframe');
+  frame.style.cssText = 'position:fixed;width:0;height:0;border:0;';
+  document.body.appendChild(frame);
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return removePrintFrame();
+    // Диалог печати в части браузеров не блокирует поток, поэтому убираем iframe только после него
+    win.addEventListener('afterprint', () => { if (printFrame === frame) removePrintFrame(); });
+    printFrameTimer = window.setTimeout(() => { if (printFrame === frame) removePrintFrame(); }, PRINT_FRAME_TIMEOUT_MS);
+    win.focus();
+    win.print();
+  };
+  frame.srcdoc = html;
+}
+
+// ---------- JSONL для дообучения ----------
+
+/**
+ * Строка формата OpenAI fine-tuning для одного ассистента чата: system — тот же промпт, что уходил модели,
+ * его ответы — assistant, всё остальное (пользователь и другие участники Арены, подписанные именем) — user.
+ * Системные уведомления и ошибки пропускаем, подряд идущие реплики одной роли склеиваем,
+ * хвостовые сообщения пользователя без ответа отбрасываем.
+ */
+function trainingLine(chat: Chat, assistant: Chat, globalSystemPrompt: string): string | null {
+  const turns: { role: 'user' | 'assistant'; content: string }[] = [];
+  chat.messages.forEach(msg => {
+    if (msg.sender === 'system' || msg.isError || !msg.text.trim()) return;
+    const isOwn = msg.sender === 'ai' && (msg.authorId || chat.id) === assistant.id;
+    const role = isOwn ? 'assistant' : 'user';
+    const label = originNote(msg) || (msg.sender === 'ai' && !isOwn ? authorOf(msg, chat) : null);
+    const content = label ? `[${label}]\n${msg.text}` : msg.text;
+    const last = turns[turns.length - 1];
+    if (last?.role === role) last.content += `\n\n${content}`;
+    else turns.push({ role, content });
+  });
+  while (turns.length > 0 && turns[turns.length - 1].role === 'user') turns.pop();
+  if (!turns.some(t => t.role === 'assistant')) return null;
+
+  const system = buildSystemPrompt(chat, assistant, globalSystemPrompt).trim();
+  return JSON.stringify({ messages: [...(system ? [{ role: 'system', content: system }] : []), ...turns] });
+}
+
+/**
+ * По строке на каждого ответившего ассистента: в Арене у каждого свой промпт и роль,
+ * смешивать их ответы в одного assistant нельзя. Удалённых участников пропускаем — их промпта уже нет.
+ */
+function chatToTrainingLines(chat: Chat, allChats: Chat[], globalSystemPrompt: string): string[] {
+  const authorIds = Array.from(new Set(chat.messages.filter(m => m.sender === 'ai').map(m => m.authorId || chat.id)));
+  return authorIds
+    .map(id => id === chat.id ? chat : allChats.find(c => c.id === id))
+    .map(assistant => assistant ? trainingLine(chat, assistant, globalSystemPrompt) : null)
+    .filter((line): line is string => line !== null);
+}
+
+const toJsonl = (entries: ExportEntry[], allChats: Chat[], globalSystemPrompt: string) =>
+  entries.flatMap(e => chatToTrainingLines(e.chat, allChats, globalSystemPrompt)).join('\n');
+
+const slugify = (name: string) => name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'chat';
+
+/**
+ * Экспортирует выбранные чаты одним файлом. Возвращает число чатов в файле
+ * (для JSONL — число обучающих примеров).
+ */
+export function exportChats(format: ExportFormat, chatIds: string[], allChats: Chat[], includeThreads: boolean, globalSystemPrompt: string): number {
+  const entries = collectEntries(chatIds, allChats, includeThreads);
+  if (entries.length === 0) return 0;
+
+  const title = entries.length === 1 ? entries[0].chat.name : `SmartChat export (${entries.length} chats)`;
+  const baseName = `${entries.length === 1 ? slugify(entries[0].chat.name) : 'smartchat-export'}-${new Date().toISOString().split('T')[0]}`;
+
+  switch (format) {
+    case 'markdown':
+      downloadFile(toMarkdown(entries, allChats), `${baseName}.md`, 'text/markdown');
+      return entries.length;
+    case 'html':
+      downloadFile(toHtml(entries, allChats, title), `${baseName}.html`, 'text/html');
+      return entries.length;
+    case 'pdf':
+      printHtml(toHtml(entries, allChats, title));
+      return entries.length;
+    case 'jsonl': {
+      const jsonl = toJsonl(entries, allChats, globalSystemPrompt);
+      if (!jsonl) return 0;
+      downloadFile(jsonl + '\n', `${baseName}.jsonl`, 'application/jsonl');
+      return jsonl.split('\n').length;
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { ProviderAdapter, ProviderRequest, ProviderResult, TokenUsage } from './types';
+import { mapHistory, readServerSentEvents, dataUrlToBase64, MappedMessage } from './common';
+import { classifyError, errorFromResponse, toProviderError } from './errors';
+
+const ANTHROPIC_URL = 'https://api.anthropic.com/v1/messages';
+
+/**
+ * Вложения — блоки image и document с base64 перед текстом, как советует документация.
+ * В ответах assistant такие блоки запрещены.
+ */
+function toContent(message: MappedMessage): string | any[] {
+  if (message.role !== 'user' || message.attachments.length === 0) return message.content;
+  return [
+    ...message.attachments.map(a => ({
+      type: a.kind === 'image' ? 'image' : 'document',
+      source: { type: 'base64', media_type: a.mimeType, data: dataUrlToBase64(a.data) }
+    })),
+    { type: 'text', text: message.content }
+  ];
+}
+
+/**
+ * Messages API: system передаётся отдельным полем, в messages — строгое чередование
+ * user/assistant, начинающееся с user (те же правила, что и для DeepSeek).
+ */
+function buildInit(request: ProviderRequest, stream: boolean): RequestInit {
+  const { modelName, systemPrompt, history, apiKey, temperature, capabilities, signal } = request;
+
+  const payload: any = {
+    model: modelName,
+    max_tokens: 2048,
+    messages: mapHistory(history, 'chat').map(h => ({ role: h.role, content: toContent(h) }))
+  };
+  if (capabilities.systemPrompt && systemPrompt) {
+    payload.system = systemPrompt;
+  }
+  if (temperature !== undefined) {
+    // Anthropic принимает temperature только в диапазоне 0..1
+    payload.temperature = Math.min(temperature, 1);
+  }
+  if (stream) {
+    payload.stream = true;
+  }
+
+  return {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': '2023-06-01',
+      'anthropic-dangerous-direct-browser-access': 'true'
+    },
+    body: JSON.stringify(payload),
+    signal
+  };
+}
+
+// 529 overloaded классифицируется как ошибка сервера и повторяется в aiService
+async function complete(request: ProviderRequest): Promise<ProviderResult> {
+  try {
+    const res = await fetch(ANTHROPIC_URL, buildInit(request, false));
+    if (!res.ok) throw await errorFromResponse('ANTHROPIC', res);
+
+    const data = await res.json();
+    const text = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+    const usage = data.usage ? { promptTokens: data.usage.input_tokens || 0, completionTokens: data.usage.output_tokens || 0 } : undefined;
+    return { text: text || "No content.", usage };
+  } catch (error: any) {
+    if (request.signal?.aborted) throw error;
+    console.error(`AI Request Failure (anthropic):`, error);
+    throw toProviderError('ANTHROPIC', error);
+  }
+}
+
+async function stream(request: ProviderRequest, onChunk: (rawText: string) => void): Promise<ProviderResult> {
+  let rawText = "";
+  let usage: TokenUsage | undefined;
+
+  try {
+    const res = await fetch(ANTHROPIC_URL, buildInit(request, true));
+    if (!res.ok) throw await errorFromResponse('ANTHROPIC', res);
+
+    for await (const event of readServerSentEvents(res)) {
+      if (event.type === 'error') {
+        // Ошибка посреди потока приходит событием: overloaded_error, rate_limit_error и т.п.
+        throw classifyError('ANTHROPIC', `${event.error?.type || ''} ${event.error?.message || 'Stream error'}`.trim());
+      }
+      // Входные токены приходят в message_start, итог по выходным — в message_delta
+      if (event.type === 'message_start' && event.message?.usage) {
+        usage = { promptTokens: event.message.usage.input_tokens || 0, completionTokens: event.message.usage.output_tokens || 0 };
+      }
+      if (event.type === 'message_delta' && event.usage) {
+        usage = { promptTokens: usage?.promptTokens || 0, completionTokens: event.usage.output_tokens || 0 };
+      }
+      if (event.type !== 'content_block_delta' || event.delta?.type !== 'text_delta') continue;
+      rawText += event.delta.text;
+      onChunk(rawText);
+    }
+  } catch (error: any) {
+    if (request.signal?.aborted) return { text: rawText, usage };
+    console.error(`AI Stream Failure (anthropic):`, error);
+    throw toProviderError('ANTHROPIC', error);
+  }
+
+  return { text: rawText, usage };
+}
+
+export const anthropicProvider: ProviderAdapter = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  icon: 'fa-feather text-orange-500',
+  auth: {
+    label: 'Anthropic API Key',
+    placeholder: 'sk-ant-...',
+    billingUrl: 'https://console.anthropic.com/settings/billing'
+  },
+  models: ['claude-sonnet-4-5', 'claude-opus-4-1', 'claude-haiku-4-5'],
+  capabilities: { temperature: true, systemPrompt: true, reasoning: false, images: true, pdf: true },
+  contextWindow: 200000,
+  complete,
+  stream
+};
@@ -0,0 +1,192 @@
+import { Attachment, Message } from '../../types';
+
+// Теги SOURCE/END и служебная разметка роли вокруг каждого сообщения
+const MESSAGE_OVERHEAD_TOKENS = 12;
+// Картинка у всех провайдеров стоит порядка тысячи-полутора токенов независимо от размера файла
+const IMAGE_TOKENS = 1500;
+// PDF считаем по объёму: ~1 страница текста на 3 КБ файла и ~800 токенов на страницу
+const PDF_BYTES_PER_TOKEN = 4;
+
+/**
+ * Грубая оценка числа токенов без токенизатора: ~4 символа латиницы на токен,
+ * ~2 символа кириллицы и прочих алфавитов. Точности хватает для бюджета контекста.
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) ascii++;
+  }
+  return Math.ceil(ascii / 4 + (text.length - ascii) / 2);
+}
+
+export function estimateAttachmentTokens(attachment: Attachment): number {
+  if (attachment.kind === 'text') return estimateTokens(attachment.data) + MESSAGE_OVERHEAD_TOKENS;
+  if (attachment.kind === 'image') return IMAGE_TOKENS;
+  return Math.ceil(attachment.size / PDF_BYTES_PER_TOKEN);
+}
+
+export function estimateMessageTokens(msg: Message): number {
+  const attachmentTokens = (msg.attachments || []).reduce((sum, a) => sum + estimateAttachmentTokens(a), 0);
+  return estimateTokens(msg.text) + attachmentTokens + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/** Base64 без префикса data:...;base64, — в таком виде картинки и PDF ждут Gemini и Anthropic */
+export const dataUrlToBase64 = (dataUrl: string) => dataUrl.slice(dataUrl.indexOf(',') + 1);
+
+/**
+ * Текст сообщения вместе с содержимым текстовых вложений.
+ */
+function messageBody(msg: Message): string {
+  const files = (msg.attachments || [])
+    .filter(a => a.kind === 'text')
+    .map(a => `--- FILE: ${a.name} ---\n${a.data.trim()}\n--- END FILE ---`);
+  return [msg.text.trim(), ...files].filter(Boolean).join('\n\n');
+}
+
+/** Сообщение истории для адаптера: картинки и PDF идут отдельно, адаптер переводит их в свой формат */
+export interface MappedMessage {
+  role: string;
+  content: string;
+  attachments: Attachment[];
+}
+
+/** 'gemini' — роли user/model, 'chat' — строгое чередование user/assistant */
+export type HistoryStyle = 'gemini' | 'chat';
+
+/**
+ * Подготавливает историю сообщений для разных провайдеров.
+ * Обрезку под контекстное окно делает aiService (planContext) до вызова адаптера.
+ * Для chat-стиля (OpenAI-совместимые API) реализует строгую логику чередования ролей без "костыльных" сообщений.
+ */
+export function mapHistory(history: Message[], style: HistoryStyle): MappedMessage[] {
+  if (history.length === 0) return [];
+
+  // 1. Системные уведомления чата модели не нужны
+  const finalMessages = history.filter(m => m.sender !== 'system');
+
+  // 2. Базовое маппирование с сохранением авторства через теги
+  const mapped = finalMessages.map((msg): MappedMessage => {
+    // Пересланное сообщение подписываем исходным автором, чтобы модель не приписала его пользователю
+    const authorLabel = msg.forwardedFrom
+      ? `Forwarded from ${msg.forwardedFrom.authorName} (${msg.forwardedFrom.chatName})`
+      : msg.mergedFrom
+        ? `Summary of thread ${msg.mergedFrom.chatName}`
+        : msg.authorName || (msg.sender === 'user' ? 'User' : 'Assistant');
+    const role = style === 'gemini' 
+      ? (msg.sender === 'user' ? 'user' : 'model') 
+      : (msg.sender === 'user' ? 'user' : 'assistant');
+    
+    return {
+      role,
+      content: `--- SOURCE: ${authorLabel.toUpperCase()} ---\n${messageBody(msg)}\n--- END ${authorLabel.toUpperCase()} ---`,
+      attachments: (msg.attachments || []).filter(a => a.kind !== 'text')
+    };
+  });
+
+  // 3. Обработка для DeepSeek и OpenAI (Строгое чередование)
+  if (style === 'chat') {
+    let strictHistory: MappedMessage[] = [];
+    
+    // Сначала просто склеиваем идущие подряд одинаковые роли
+    mapped.forEach((m) => {
+      const last = strictHistory[strictHistory.length - 1];
+      if (last && last.role === m.role) {
+        last.content += "\n\n" + m.content;
+        last.attachments = [...last.attachments, ...m.attachments];
+      } else {
+        strictHistory.push({ ...m });
+      }
+    });
+
+    // ПРАВИЛО 1: Должно начинаться с 'user'
+    if (strictHistory.length > 0 && strictHistory[0].role === 'assistant') {
+      const first = strictHistory.shift()!;
+      strictHistory.unshift({ 
+        role: 'user', 
+        content: `[PREVIOUS CONTEXT]:\n${first.content}`,
+        attachments: first.attachments
+      });
+    }
+
+    // ПРАВИЛО 2: DeepSeek требует, чтобы история ЗАКАНЧИВАЛАСЬ на 'user'.
+    // Если в истории последним ответил другой ИИ (assistant), мы вливаем его ответ 
+    // в предыдущий user-блок как часть контекста, чтобы не плодить "костыльные" сообщения.
+    if (strictHistory.length > 1 && strictHistory[strictHistory.length - 1].role === 'assistant') {
+      const lastAssistantTurn = strictHistory.pop()!;
+      // Вливаем в предыдущий user-блок
+      strictHistory[strictHistory.length - 1].content += `\n\n[FOLLOW-UP RESPONSE]:\n${lastAssistantTurn.content}`;
+      strictHistory[strictHistory.length - 1].attachments.push(...lastAssistantTurn.attachments);
+    } else if (strictHistory.length === 1 && strictHistory[0].role === 'assistant') {
+        // Если вообще всего одно сообщение и оно от ассистента (подмена роли)
+        const onlyMsg = strictHistory.pop()!;
+        strictHistory.push({ role: 'user', content: `[DIALOGUE CONTEXT]:\n${onlyMsg.content}`, attachments: onlyMsg.attachments });
+    }
+
+    return strictHistory;
+  }
+
+  // 4. Обработка для Gemini
+  const geminiHistory: MappedMessage[] = [];
+  mapped.forEach(m => {
+    const last = geminiHistory[geminiHistory.length - 1];
+    if (last && last.role === m.role) {
+      last.content += "\n\n" + m.content;
+      last.attachments = [...last.attachments, ...m.attachments];
+    } else {
+      geminiHistory.push({ ...m });
+    }
+  });
+
+  return geminiHistory;
+}
+
+/**
+ * Очистка ответа от технических тегов протокола SOURCE/END
+ */
+export function cleanResponse(text: string): string {
+  if (!text) return "";
+  return text
+    .replace(/^-+\s*SOURCE:.*?-+\s*$/gim, "")
+    .replace(/^-+\s*END.*?-+\s*$/gim, "")
+    .trim();
+}
+
+/**
+ * Пауза, которую можно прервать: при отмене через signal промис отклоняется с его причиной.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+  const onAbort = () => { clearTimeout(timer); reject(signal!.reason); };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Разбирает поток Server-Sent Events и отдаёт JSON каждого блока `data:`.
+ */
+export async function* readServerSentEvents(res: Response): AsyncGenerator<any> {
+  if (!res.body) return;
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const data = trimmed.slice(5).trim();
+      if (data === '[DONE]') return;
+      try {
+        yield JSON.parse(data);
+      } catch {
+        // Служебные или обрезанные строки пропускаем
+      }
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { CustomEndpoint } from '../../types';
+import { ProviderAdapter } from './types';
+import { createOpenAICompatibleAdapter } from './openaiCompatible';
+
+// Размер окна локальных моделей заранее неизвестен — берём значение, в которое влезет почти любая
+const DEFAULT_CUSTOM_CONTEXT_WINDOW = 8192;
+
+/**
+ * Приводит базовый адрес к виду без завершающего слэша и без /chat/completions.
+ */
+export function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, '').replace(/\/chat\/completions$/, '');
+}
+
+export function createCustomEndpointAdapter(endpoint: CustomEndpoint): ProviderAdapter {
+  return createOpenAICompatibleAdapter({
+    id: endpoint.id,
+    label: endpoint.name,
+    icon: 'fa-server text-teal-500',
+    url: `${normalizeBaseUrl(endpoint.baseUrl)}/chat/completions`,
+    apiKey: endpoint.apiKey,
+    models: endpoint.models,
+    isCustom: true,
+    // Поддержку картинок у локальной модели не узнать заранее, поэтому только текст
+    capabilities: { temperature: true, systemPrompt: true, reasoning: false, images: false, pdf: false },
+    contextWindow: endpoint.contextWindow || DEFAULT_CUSTOM_CONTEXT_WINDOW
+  });
+}
+
+/**
+ * Запрашивает список моделей у OpenAI-совместимого сервера (GET /models).
+ */
+export async function fetchEndpointModels(baseUrl: string, apiKey?: string): Promise<string[]> {
+  const res = await fetch(`${normalizeBaseUrl(baseUrl)}/models`, {
+    headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}
+  });
+  if (!res.ok) throw new Error(`Error ${res.status}`);
+  const data = await res.json();
+  return (data.data || []).map((m: any) => m.id).filter(Boolean);
+}
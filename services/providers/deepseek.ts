@@ -0,0 +1,20 @@
+import { createOpenAICompatibleAdapter } from './openaiCompatible';
+
+export const deepseekProvider = createOpenAICompatibleAdapter({
+  id: 'deepseek',
+  label: 'DeepSeek',
+  icon: 'fa-brain text-purple-500',
+  url: 'https://api.deepseek.com/chat/completions',
+  auth: {
+    label: 'DeepSeek API Key',
+    placeholder: 'sk-...',
+    billingUrl: 'https://platform.deepseek.com/usage'
+  },
+  models: ['deepseek-chat', 'deepseek-reasoner'],
+  capabilities: { temperature: true, systemPrompt: true, reasoning: false, images: false, pdf: false },
+  modelCapabilities: {
+    'deepseek-reasoner': { temperature: false, reasoning: true }
+  },
+  contextWindow: 128000,
+  streamUsage: true
+});
@@ -0,0 +1,100 @@
+import { AIErrorKind } from '../../types';
+
+/**
+ * Ошибка запроса к провайдеру с известным классом. Адаптеры бросают только её наследников,
+ * поэтому aiService и UI не разбирают текст сообщения.
+ */
+export class ProviderError extends Error {
+  readonly kind: AIErrorKind = 'unknown';
+  /** Пауза, которую попросил сервер (Retry-After), мс */
+  retryAfterMs?: number;
+
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  /** Имеет ли смысл повторить тот же запрос без изменений */
+  get retryable(): boolean {
+    return this.kind === 'rate_limit' || this.kind === 'server' || this.kind === 'network';
+  }
+}
+
+export class AuthError extends ProviderError { readonly kind = 'auth'; }
+export class RateLimitError extends ProviderError { readonly kind = 'rate_limit'; }
+export class QuotaError extends ProviderError { readonly kind = 'quota'; }
+export class ContextOverflowError extends ProviderError { readonly kind = 'context_overflow'; }
+export class NetworkError extends ProviderError { readonly kind = 'network'; }
+export class ServerError extends ProviderError { readonly kind = 'server'; }
+export class ContentFilterError extends ProviderError { readonly kind = 'content_filter'; }
+
+// Фразы из ответов провайдеров (OpenAI, Anthropic, DeepSeek, Gemini). Общие слова вроде «balance» или «blocked»
+// встречаются и в чужих ошибках («load balancer», «blocked by firewall»), поэтому только конкретные формулировки
+const QUOTA_PATTERN = /insufficient_quota|exceeded your current quota|credit balance is too low|insufficient balance|check your plan and billing/i;
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests|resource.?exhausted/i;
+const CONTEXT_PATTERN = /context (length|window)|maximum context|too many tokens|prompt is too long|input is too long|token limit/i;
+const CONTENT_FILTER_PATTERN = /content.?filter|content.?policy|content management policy|blocked (due to|by|for) safety|safety (settings|filters?|reasons?)|prohibited.?content/i;
+const SERVER_PATTERN = /overloaded|service unavailable|internal (server )?error|api_error/i;
+const NETWORK_PATTERN = /failed to fetch|network ?error|load failed|timed? ?out/i;
+
+/**
+ * Подбирает класс ошибки. Решает HTTP-статус; текст нужен, только чтобы различить ошибки с одним статусом
+ * (квота и лимит частоты у 429, переполнение контекста и фильтр у 400).
+ * Статус может быть неизвестен (ошибки SDK, события потока) — тогда решает только текст.
+ */
+export function classifyError(label: string, message: string, status?: number): ProviderError {
+  const text = `${label}: ${message}`;
+  if (status !== undefined) {
+    if (status === 401 || status === 403) return new AuthError(`${label}: Authentication Failed. Check API Key.`, status);
+    if (status === 402) return new QuotaError(text, status);
+    // OpenAI отдаёт исчерпанную квоту тем же 429, отличить можно только по тексту
+    if (status === 429) return QUOTA_PATTERN.test(message) ? new QuotaError(text, status) : new RateLimitError(text, status);
+    if (status === 413) return new ContextOverflowError(text, status);
+    if (status >= 500) return new ServerError(text, status);
+    if (status >= 400 && CONTEXT_PATTERN.test(message)) return new ContextOverflowError(text, status);
+    if (status >= 400 && CONTENT_FILTER_PATTERN.test(message)) return new ContentFilterError(text, status);
+    return new ProviderError(text, status);
+  }
+  if (QUOTA_PATTERN.test(message)) return new QuotaError(text);
+  if (RATE_LIMIT_PATTERN.test(message)) return new RateLimitError(text);
+  if (CONTEXT_PATTERN.test(message)) return new ContextOverflowError(text);
+  if (CONTENT_FILTER_PATTERN.test(message)) return new ContentFilterError(text);
+  if (SERVER_PATTERN.test(message)) return new ServerError(text);
+  if (NETWORK_PATTERN.test(message)) return new NetworkError(text);
+  return new ProviderError(text);
+}
+
+/**
+ * Retry-After бывает числом секунд или HTTP-датой; у OpenAI есть ещё retry-after-ms.
+ */
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const ms = parseFloat(headers.get('retry-after-ms') || '');
+  if (!isNaN(ms)) return ms;
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+  const seconds = parseFloat(value);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Превращает неуспешный HTTP-ответ в типизированную ошибку.
+ */
+export async function errorFromResponse(label: string, res: Response): Promise<ProviderError> {
+  const data = await res.json().catch(() => ({}));
+  const message = data.error?.message || `Error ${res.status}`;
+  const error = classifyError(label, message, res.status);
+  error.retryAfterMs = parseRetryAfter(res.headers);
+  return error;
+}
+
+/**
+ * Приводит любое исключение (fetch, SDK) к ProviderError. Ошибки отмены возвращает как есть.
+ */
+export function toProviderError(label: string, e: any): Error {
+  if (e instanceof ProviderError || e?.name === 'AbortError') return e;
+  // fetch падает TypeError без статуса, если сервер недоступен или заблокирован CORS
+  if (e instanceof TypeError) return new NetworkError(`${label}: Network error. ${e.message}`);
+  return classifyError(label, e?.message || String(e), typeof e?.status === 'number' ? e.status : undefined);
+}
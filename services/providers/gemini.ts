@@ -0,0 +1,81 @@
+import { GoogleGenAI } from "@google/genai";
+import { ProviderAdapter, ProviderRequest, TokenUsage } from './types';
+import { mapHistory, dataUrlToBase64 } from './common';
+import { ContentFilterError, toProviderError } from './errors';
+
+function buildParams(request: ProviderRequest) {
+  const { modelName, systemPrompt, history, temperature, capabilities, signal } = request;
+  return {
+    model: modelName,
+    contents: mapHistory(history, 'gemini').map((h) => ({
+      role: h.role,
+      parts: [
+        { text: h.content },
+        ...h.attachments.map(a => ({ inlineData: { mimeType: a.mimeType, data: dataUrlToBase64(a.data) } }))
+      ]
+    })),
+    config: {
+      systemInstruction: capabilities.systemPrompt ? systemPrompt : undefined,
+      temperature: temperature,
+      abortSignal: signal,
+      ...(capabilities.reasoning ? { thinkingConfig: { thinkingBudget: 32768 } } : {})
+    }
+  };
+}
+
+// Размышления модели тарифицируются как выходные токены
+function parseUsage(metadata: any): TokenUsage | undefined {
+  if (!metadata) return undefined;
+  return {
+    promptTokens: metadata.promptTokenCount || 0,
+    completionTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0)
+  };
+}
+
+export const geminiProvider: ProviderAdapter = {
+  id: 'gemini',
+  label: 'Gemini',
+  icon: 'fa-cloud text-blue-500',
+  envApiKey: process.env.API_KEY || '',
+  models: ['gemini-3-flash-preview', 'gemini-3-pro-preview'],
+  capabilities: { temperature: true, systemPrompt: true, reasoning: false, images: true, pdf: true },
+  modelCapabilities: {
+    'gemini-3-pro-preview': { reasoning: true }
+  },
+  contextWindow: 1048576,
+
+  async complete(request) {
+    const ai = new GoogleGenAI({ apiKey: request.apiKey });
+    try {
+      const response = await ai.models.generateContent(buildParams(request));
+      // Заблокированный запрос приходит без исключения, с пустым ответом и причиной в promptFeedback
+      if (response.promptFeedback?.blockReason) {
+        throw new ContentFilterError(`Gemini: Request blocked (${response.promptFeedback.blockReason}).`);
+      }
+      return { text: response.text || "No response.", usage: parseUsage(response.usageMetadata) };
+    } catch (e: any) {
+      if (request.signal?.aborted) throw e;
+      throw toProviderError('Gemini', e);
+    }
+  },
+
+  async stream(request, onChunk) {
+    const ai = new GoogleGenAI({ apiKey: request.apiKey });
+    let rawText = "";
+    let usage: TokenUsage | undefined;
+    try {
+      const stream = await ai.models.generateContentStream(buildParams(request));
+      for await (const chunk of stream) {
+        if (request.signal?.aborted) break;
+        if (chunk.usageMetadata) usage = parseUsage(chunk.usageMetadata);
+        if (!chunk.text) continue;
+        rawText += chunk.text;
+        onChunk(rawText);
+      }
+    } catch (e: any) {
+      if (request.signal?.aborted) return { text: rawText, usage };
+      throw toProviderError('Gemini', e);
+    }
+    return { text: rawText, usage };
+  }
+};
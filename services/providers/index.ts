@@ -0,0 +1,74 @@
+import { CustomEndpoint } from '../../types';
+import { ProviderAdapter, ProviderCapabilities } from './types';
+import { geminiProvider } from './gemini';
+import { openaiProvider } from './openai';
+import { deepseekProvider } from './deepseek';
+import { anthropicProvider } from './anthropic';
+import { createCustomEndpointAdapter } from './custom';
+
+export { fetchEndpointModels, normalizeBaseUrl } from './custom';
+export { ProviderError, AuthError, RateLimitError, QuotaError, ContextOverflowError, NetworkError, ServerError, ContentFilterError } from './errors';
+export type { ProviderAdapter, ProviderAuth, ProviderCapabilities, ProviderRequest, ProviderResult, TokenUsage } from './types';
+
+/**
+ * Реестр провайдеров. Чтобы добавить провайдера, достаточно написать модуль-адаптер
+ * и зарегистрировать его здесь — UI и aiService берут всё из реестра.
+ */
+const registry = new Map<string, ProviderAdapter>();
+
+export function registerProvider(adapter: ProviderAdapter) {
+  registry.set(adapter.id, adapter);
+}
+
+[geminiProvider, openaiProvider, deepseekProvider, anthropicProvider].forEach(registerProvider);
+
+let syncedEndpoints: CustomEndpoint[] | null = null;
+
+/**
+ * Перерегистрирует пользовательские эндпоинты из настроек.
+ * Повторный вызов с тем же массивом ничего не делает.
+ */
+export function syncCustomEndpoints(endpoints: CustomEndpoint[]) {
+  if (endpoints === syncedEndpoints) return;
+  syncedEndpoints?.forEach(e => registry.delete(e.id));
+  endpoints.forEach(e => registerProvider(createCustomEndpointAdapter(e)));
+  syncedEndpoints = endpoints;
+}
+
+export function getProvider(id: string): ProviderAdapter | undefined {
+  return registry.get(id);
+}
+
+export function listProviders(): ProviderAdapter[] {
+  return Array.from(registry.values());
+}
+
+export function getProviderModels(id: string): string[] {
+  return registry.get(id)?.models || [];
+}
+
+export function getProviderLabel(id: string): string {
+  return registry.get(id)?.label || id;
+}
+
+export function getModelCapabilities(id: string, modelName: string): ProviderCapabilities {
+  const adapter = registry.get(id);
+  if (!adapter) return { temperature: true, systemPrompt: true, reasoning: false, images: false, pdf: false };
+  return { ...adapter.capabilities, ...(adapter.modelCapabilities?.[modelName] || {}) };
+}
+
+/**
+ * Контекстное окно модели в токенах. Для неизвестного провайдера — консервативные 8k.
+ */
+export function getContextWindow(id: string, modelName: string): number {
+  const adapter = registry.get(id);
+  if (!adapter) return 8192;
+  return adapter.modelContextWindows?.[modelName] ?? adapter.contextWindow;
+}
+
+/**
+ * Ключ провайдера: пользовательский из настроек, иначе из окружения.
+ */
+export function resolveApiKey(id: string, apiKeys: Record<string, string>): string {
+  return apiKeys[id] || registry.get(id)?.envApiKey || '';
+}
@@ -0,0 +1,26 @@
+import { createOpenAICompatibleAdapter } from './openaiCompatible';
+
+export const openaiProvider = createOpenAICompatibleAdapter({
+  id: 'openai',
+  label: 'OpenAI',
+  icon: 'fa-robot text-indigo-500',
+  url: 'https://api.openai.com/v1/chat/completions',
+  auth: {
+    label: 'OpenAI API Key',
+    placeholder: 'sk-...',
+    billingUrl: 'https://platform.openai.com/account/billing'
+  },
+  models: ['gpt-4o', 'gpt-4o-mini', 'o1', 'o3-mini'],
+  capabilities: { temperature: true, systemPrompt: true, reasoning: false, images: true, pdf: true },
+  modelCapabilities: {
+    'o1': { temperature: false, reasoning: true },
+    'o3-mini': { temperature: false, reasoning: true, images: false, pdf: false }
+  },
+  contextWindow: 128000,
+  modelContextWindows: {
+    'o1': 200000,
+    'o3-mini': 200000
+  },
+  maxTokensParam: 'max_completion_tokens',
+  streamUsage: true
+});
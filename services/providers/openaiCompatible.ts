@@ -0,0 +1,125 @@
+import { ProviderAdapter, ProviderRequest, ProviderResult, TokenUsage } from './types';
+import { mapHistory, readServerSentEvents, MappedMessage } from './common';
+import { errorFromResponse, toProviderError } from './errors';
+
+export interface OpenAICompatibleOptions extends Omit<ProviderAdapter, 'complete' | 'stream'> {
+  /** Полный адрес эндпоинта /chat/completions */
+  url: string;
+  /** Новые модели OpenAI принимают только max_completion_tokens */
+  maxTokensParam?: 'max_tokens' | 'max_completion_tokens';
+  /** Ключ, зашитый в сам эндпоинт (используется, если в запросе ключа нет) */
+  apiKey?: string;
+  /** Просить usage в конце потока (stream_options.include_usage); не все серверы знают этот параметр */
+  streamUsage?: boolean;
+}
+
+/**
+ * Сообщение с вложениями уходит массивом частей: текст, image_url и file (PDF).
+ * Вложения принимаются только в сообщениях пользователя.
+ */
+function toContent(message: MappedMessage): string | any[] {
+  if (message.role !== 'user' || message.attachments.length === 0) return message.content;
+  return [
+    { type: 'text', text: message.content },
+    ...message.attachments.map(a => a.kind === 'image'
+      ? { type: 'image_url', image_url: { url: a.data } }
+      : { type: 'file', file: { filename: a.name, file_data: a.data } })
+  ];
+}
+
+function parseUsage(usage: any): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return { promptTokens: usage.prompt_tokens || 0, completionTokens: usage.completion_tokens || 0 };
+}
+
+/**
+ * Адаптер для любого API в формате OpenAI /chat/completions (OpenAI, DeepSeek и т.п.).
+ */
+export function createOpenAICompatibleAdapter(options: OpenAICompatibleOptions): ProviderAdapter {
+  const { url, maxTokensParam = 'max_tokens', apiKey: endpointKey, streamUsage = false, ...adapter } = options;
+  const errorPrefix = adapter.label.toUpperCase();
+
+  const buildInit = (request: ProviderRequest, stream: boolean): RequestInit => {
+    const { modelName, systemPrompt, history, apiKey, temperature, capabilities, signal } = request;
+    const normalizedHistory = mapHistory(history, 'chat');
+
+    const messages = [
+        ...(capabilities.systemPrompt ? [{ role: 'system', content: systemPrompt || "You are a helpful assistant." }] : []),
+        ...normalizedHistory.map((h) => ({
+          role: h.role,
+          content: toContent(h)
+        }))
+    ];
+
+    const payload: any = {
+      model: modelName,
+      messages: messages,
+      [maxTokensParam]: 2048 
+    };
+
+    if (temperature !== undefined) {
+      payload.temperature = temperature;
+    }
+    if (stream) {
+      payload.stream = true;
+      if (streamUsage) payload.stream_options = { include_usage: true };
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const key = apiKey || endpointKey;
+    if (key) headers['Authorization'] = `Bearer ${key}`;
+
+    return {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(payload),
+      signal
+    };
+  };
+
+  // Повторы с паузами делает aiService, адаптер только классифицирует ошибку
+  const complete = async (request: ProviderRequest): Promise<ProviderResult> => {
+    try {
+      const res = await fetch(url, buildInit(request, false));
+      if (!res.ok) throw await errorFromResponse(errorPrefix, res);
+
+      const data = await res.json();
+      return { text: data.choices?.[0]?.message?.content || "No content.", usage: parseUsage(data.usage) };
+    } catch (error: any) {
+      if (request.signal?.aborted) throw error;
+      console.error(`AI Request Failure (${adapter.id}):`, error);
+      throw toProviderError(errorPrefix, error);
+    }
+  };
+
+  const stream = async (request: ProviderRequest, onChunk: (rawText: string) => void): Promise<ProviderResult> => {
+    let rawText = "";
+    let usage: TokenUsage | undefined;
+
+    try {
+      const res = await fetch(url, buildInit(request, true));
+      if (!res.ok) throw await errorFromResponse(errorPrefix, res);
+
+      for await (const event of readServerSentEvents(res)) {
+        // С include_usage последний блок приходит с пустым choices и заполненным usage
+        if (event.usage) usage = parseUsage(event.usage);
+        const delta = event.choices?.[0]?.delta?.content;
+        if (!delta) continue;
+        rawText += delta;
+        onChunk(rawText);
+      }
+    } catch (error: any) {
+      if (request.signal?.aborted) return { text: rawText, usage };
+      console.error(`AI Stream Failure (${adapter.id}):`, error);
+      throw toProviderError(errorPrefix, error);
+    }
+
+    return { text: rawText, usage };
+  };
+
+  return {
+    ...adapter,
+    complete,
+    stream
+  };
+}
@@ -0,0 +1,72 @@
+import { Message } from '../../types';
+
+/** Токены, которые посчитал сам провайдер */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ProviderResult {
+  text: string;
+  /** undefined, если API не вернул usage */
+  usage?: TokenUsage;
+}
+
+/**
+ * Что умеет модель. Значения провайдера можно переопределить для отдельных моделей
+ * через `modelCapabilities`.
+ */
+export interface ProviderCapabilities {
+  temperature: boolean;
+  systemPrompt: boolean;
+  reasoning: boolean;
+  /** Принимает картинки во входе */
+  images: boolean;
+  /** Принимает PDF целиком (без этого уходит только имя файла) */
+  pdf: boolean;
+}
+
+/**
+ * Поле ключа в настройках. Значение хранится в `AppSettings.apiKeys[adapter.id]`.
+ */
+export interface ProviderAuth {
+  label: string;
+  placeholder?: string;
+  billingUrl?: string;
+}
+
+export interface ProviderRequest {
+  modelName: string;
+  systemPrompt: string;
+  history: Message[];
+  apiKey: string;
+  /** undefined, если модель не поддерживает temperature */
+  temperature?: number;
+  capabilities: ProviderCapabilities;
+  signal?: AbortSignal;
+}
+
+export interface ProviderAdapter {
+  id: string;
+  label: string;
+  /** Классы FontAwesome для экрана настроек, вместе с цветом */
+  icon: string;
+  /** Нет auth — ключ берётся только из окружения (envApiKey) */
+  auth?: ProviderAuth;
+  envApiKey?: string;
+  models: string[];
+  /** Добавлен пользователем через настройки (AppSettings.customEndpoints) */
+  isCustom?: boolean;
+  capabilities: ProviderCapabilities;
+  modelCapabilities?: Record<string, Partial<ProviderCapabilities>>;
+  /** Размер контекстного окна в токенах (вход + выход) */
+  contextWindow: number;
+  modelContextWindows?: Record<string, number>;
+  /** Возвращает «сырой» текст ответа, очистку делает aiService */
+  complete(request: ProviderRequest): Promise<ProviderResult>;
+  /**
+   * onChunk получает весь накопленный сырой текст. При отмене через signal
+   * резолвится уже полученной частью.
+   */
+  stream(request: ProviderRequest, onChunk: (rawText: string) => void): Promise<ProviderResult>;
+}
@@ -0,0 +1,173 @@
+import { Chat, Message, ModelProvider } from '../types';
+
+const MAX_RESULTS = 200;
+const SNIPPET_RADIUS = 60;
+
+export interface SearchFilters {
+  sender: 'all' | 'user' | 'ai';
+  assistantId?: string;
+  provider?: ModelProvider;
+  folder?: string; // имя тега без #
+  from?: number;
+  to?: number;
+  includeArchived: boolean;
+}
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = { sender: 'all', includeArchived: false };
+
+export interface SearchHit {
+  chatId: string;
+  messageId: string;
+  chatName: string;
+  authorName: string;
+  sender: Message['sender'];
+  timestamp: number;
+  snippet: string;
+}
+
+interface IndexedMessage {
+  chatId: string;
+  message: Message;
+  terms: string[];
+}
+
+// Слова на любом языке: буквы и цифры подряд
+const TERM_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export const tokenize = (text: string): string[] => text.toLowerCase().match(TERM_PATTERN) || [];
+
+/**
+ * Обратный индекс: слово -> ключи сообщений. Один на всё приложение, обновляется по разнице снимков.
+ */
+const postings = new Map<string, Set<string>>();
+const documents = new Map<string, IndexedMessage>();
+let indexedChats: Chat[] = [];
+
+const docKey = (chatId: string, messageId: string) => `${chatId}\u0000${messageId}`;
+
+function addDocument(chatId: string, message: Message) {
+  // Системные уведомления и сравнения в поиске только мешают
+  if (message.sender === 'system') return;
+  const key = docKey(chatId, message.id);
+  const terms = Array.from(new Set(tokenize(message.text)));
+  documents.set(key, { chatId, message, terms });
+  terms.forEach(term => {
+    let keys = postings.get(term);
+    if (!keys) postings.set(term, keys = new Set());
+    keys.add(key);
+  });
+}
+
+function removeDocument(chatId: string, messageId: string) {
+  const key = docKey(chatId, messageId);
+  const doc = documents.get(key);
+  if (!doc) return;
+  doc.terms.forEach(term => {
+    const keys = postings.get(term);
+    keys?.delete(key);
+    if (keys?.size === 0) postings.delete(term);
+  });
+  documents.delete(key);
+}
+
+/**
+ * Переиндексирует только изменившиеся сообщения. Сравнение по ссылкам, как в storageService.
+ */
+export function updateSearchIndex(chats: Chat[]) {
+  const prevById = new Map(indexedChats.map(c => [c.id, c]));
+  const nextIds = new Set(chats.map(c => c.id));
+
+  chats.forEach(chat => {
+    const old = prevById.get(chat.id);
+    if (old?.messages === chat.messages) return;
+    const oldMessages = new Map((old?.messages || []).map(m => [m.id, m]));
+    chat.messages.forEach(m => {
+      const previous = oldMessages.get(m.id);
+      oldMessages.delete(m.id);
+      if (previous === m) return;
+      if (previous) removeDocument(chat.id, m.id);
+      addDocument(chat.id, m);
+    });
+    oldMessages.forEach((_, messageId) => removeDocument(chat.id, messageId));
+  });
+
+  prevById.forEach((old, id) => {
+    if (!nextIds.has(id)) old.messages.forEach(m => removeDocument(id, m.id));
+  });
+  indexedChats = chats;
+}
+
+/**
+ * Ключи сообщений, где есть слово с таким началом. Последнее слово запроса обычно недописано,
+ * поэтому префикс проверяется для всех — «deploy» найдёт и «deployment».
+ */
+function keysForPrefix(prefix: string): Set<string> {
+  const exact = postings.get(prefix);
+  const result = new Set<string>(exact);
+  postings.forEach((keys, term) => {
+    if (term !== prefix && term.startsWith(prefix)) keys.forEach(k => result.add(k));
+  });
+  return result;
+}
+
+function buildSnippet(text: string, terms: string[]): string {
+  const lower = text.toLowerCase();
+  const positions = terms.map(t => lower.indexOf(t)).filter(i => i >= 0);
+  const at = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(text.length, at + SNIPPET_RADIUS * 2);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Ассистент, к которому относится сообщение: автор ответа или сам чат, если это личный диалог.
+ */
+function messageAssistant(chat: Chat, message: Message, byId: Map<string, Chat>): Chat | undefined {
+  if (message.authorId) return byId.get(message.authorId);
+  return chat.isGroup ? undefined : chat;
+}
+
+/**
+ * Ищет сообщения, содержащие все слова запроса. Свежие результаты первыми.
+ * chats — текущий снимок: по нему проверяются фильтры (папки и архив могли поменяться без правки сообщений).
+ */
+export function searchMessages(query: string, chats: Chat[], filters: SearchFilters): SearchHit[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) return [];
+
+  // Начинаем с самого редкого слова, остальные только сужают набор
+  const sets = terms.map(keysForPrefix).sort((a, b) => a.size - b.size);
+  const candidates = Array.from(sets[0]).filter(key => sets.every(s => s.has(key)));
+
+  const byId = new Map(chats.map(c => [c.id, c]));
+  const folder = filters.folder?.toLowerCase();
+  const hits: SearchHit[] = [];
+
+  candidates.forEach(key => {
+    const doc = documents.get(key)!;
+    const chat = byId.get(doc.chatId);
+    const { message } = doc;
+    if (!chat) return;
+    if (!filters.includeArchived && chat.tags.includes('#archived')) return;
+    if (folder && !chat.tags.some(t => t.replace(/^#/, '').toLowerCase() === folder)) return;
+    if (filters.sender !== 'all' && message.sender !== filters.sender) return;
+    if (filters.from && message.timestamp < filters.from) return;
+    if (filters.to && message.timestamp > filters.to) return;
+    if (filters.assistantId || filters.provider) {
+      const assistant = messageAssistant(chat, message, byId);
+      if (filters.assistantId && assistant?.id !== filters.assistantId) return;
+      if (filters.provider && (assistant || chat).provider !== filters.provider) return;
+    }
+    hits.push({
+      chatId: chat.id,
+      messageId: message.id,
+      chatName: chat.name,
+      authorName: message.forwardedFrom?.authorName || message.authorName || (message.sender === 'user' ? 'You' : chat.name),
+      sender: message.sender,
+      timestamp: message.timestamp,
+      snippet: buildSnippet(message.text, terms)
+    });
+  });
+
+  return hits.sort((a, b) => b.timestamp - a.timestamp).slice(0, MAX_RESULTS);
+}
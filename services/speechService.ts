@@ -0,0 +1,215 @@
+import { resolveApiKey } from './providers';
+
+/** Идущая запись: stop() завершает её, итоговый текст придёт в onFinal */
+export interface DictationSession {
+  stop(): void;
+}
+
+export interface DictationOptions {
+  lang: string;
+  apiKeys: Record<string, string>;
+  /** Промежуточный текст текущей фразы (если движок умеет) */
+  onPartial: (text: string) => void;
+  onFinal: (text: string) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Движок распознавания речи. Чтобы добавить свой, достаточно зарегистрировать его через registerTranscriber.
+ */
+export interface Transcriber {
+  id: string;
+  label: string;
+  isAvailable(apiKeys: Record<string, string>): boolean;
+  start(options: DictationOptions): DictationSession;
+}
+
+// Расширения, по которым Whisper определяет формат; Safari пишет audio/mp4, Chrome и Firefox — webm/ogg
+const AUDIO_EXTENSIONS: Record<string, string> = { webm: 'webm', ogg: 'ogg', mp4: 'mp4', 'x-m4a': 'm4a', m4a: 'm4a', mpeg: 'mp3', wav: 'wav', 'x-wav': 'wav', flac: 'flac' };
+
+const audioExtension = (mimeType: string) => AUDIO_EXTENSIONS[mimeType.split(';')[0].split('/')[1]?.trim().toLowerCase()] || 'webm';
+
+// Страховка озвучки: примерная скорость чтения и запас сверху
+const SPEECH_CHARS_PER_SECOND = 10;
+const SPEECH_WATCHDOG_GRACE_MS = 10000;
+const SPEECH_POLL_MS = 1000;
+
+const SpeechRecognitionImpl: any = typeof window !== 'undefined'
+  ? (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition
+  : undefined;
+
+/**
+ * Web Speech API: распознаёт на лету, но есть не во всех браузерах (нет в Firefox).
+ */
+const browserTranscriber: Transcriber = {
+  id: 'browser',
+  label: 'Browser (Web Speech)',
+  isAvailable: () => !!SpeechRecognitionImpl,
+  start({ lang, onPartial, onFinal, onError }) {
+    const recognition = new SpeechRecognitionImpl();
+    recognition.lang = lang;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+
+    let finalText = '';
+    recognition.onresult = (event: any) => {
+      let interim = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) finalText += result[0].transcript;
+        else interim += result[0].transcript;
+      }
+      onPartial((finalText + interim).trim());
+    };
+    recognition.onerror = (event: any) => {
+      // no-speech и aborted — обычное завершение без текста
+      if (event.error !== 'no-speech' && event.error !== 'aborted') onError(`Speech recognition failed: ${event.error}`);
+    };
+    recognition.onend = () => onFinal(finalText.trim());
+    recognition.start();
+    return { stop: () => recognition.stop() };
+  }
+};
+
+/**
+ * OpenAI Whisper: записываем микрофон целиком и отправляем после отпускания кнопки.
+ */
+const whisperTranscriber: Transcriber = {
+  id: 'openai-whisper',
+  label: 'OpenAI Whisper',
+  isAvailable: (apiKeys) => typeof MediaRecorder !== 'undefined' && !!resolveApiKey('openai', apiKeys),
+  start({ lang, apiKeys, onFinal, onError }) {
+    let recorder: MediaRecorder | null = null;
+    let stopped = false;
+    const chunks: Blob[] = [];
+
+    navigator.mediaDevices.getUserMedia({ audio: true }).then(stream => {
+      recorder = new MediaRecorder(stream);
+      recorder.ondataavailable = (e) => chunks.push(e.data);
+      recorder.onstop = async () => {
+        stream.getTracks().forEach(t => t.stop());
+        const form = new FormData();
+        const mimeType = recorder!.mimeType;
+        form.append('file', new Blob(chunks, { type: mimeType }), `speech.${audioExtension(mimeType)}`);
+        form.append('model', 'whisper-1');
+        form.append('language', lang.split('-')[0]);
+        try {
+          const res = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${resolveApiKey('openai', apiKeys)}` },
+            body: form
+          });
+          if (!res.ok) throw new Error(`Error ${res.status}`);
+          const data = await res.json();
+          onFinal((data.text || '').trim());
+        } catch (e: any) {
+          onError(`Transcription failed: ${e.message}`);
+          onFinal('');
+        }
+      };
+      recorder.start();
+      // Кнопку отпустили раньше, чем браузер дал доступ к микрофону
+      if (stopped) recorder.stop();
+    }).catch(() => {
+      onError('Microphone access denied.');
+      onFinal('');
+    });
+
+    return {
+      stop: () => {
+        stopped = true;
+        if (recorder?.state === 'recording') recorder.stop();
+      }
+    };
+  }
+};
+
+const transcribers = new Map<string, Transcriber>();
+
+export function registerTranscriber(transcriber: Transcriber) {
+  transcribers.set(transcriber.id, transcriber);
+}
+
+[browserTranscriber, whisperTranscriber].forEach(registerTranscriber);
+
+export function listTranscribers(): Transcriber[] {
+  return Array.from(transcribers.values());
+}
+
+/**
+ * Выбранный в настройках движок, если он доступен, иначе первый доступный.
+ */
+export function getTranscriber(id: string | undefined, apiKeys: Record<string, string>): Transcriber | undefined {
+  const preferred = id ? transcribers.get(id) : undefined;
+  if (preferred?.isAvailable(apiKeys)) return preferred;
+  return listTranscribers().find(t => t.isAvailable(apiKeys));
+}
+
+// ---------- Озвучка ответов ----------
+
+export const isSpeechSynthesisAvailable = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/**
+ * Список голосов. В Chrome он загружается асинхронно, поэтому ждём voiceschanged.
+ */
+export function loadVoices(): Promise<SpeechSynthesisVoice[]> {
+  if (!isSpeechSynthesisAvailable()) return Promise.resolve([]);
+  const voices = speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+  return new Promise(resolve => {
+    const done = () => resolve(speechSynthesis.getVoices());
+    speechSynthesis.addEventListener('voiceschanged', done, { once: true });
+    setTimeout(done, 1500);
+  });
+}
+
+/** Markdown и код вслух не читаем */
+function toSpeakableText(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/g, ' code block omitted. ')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/[*_#>~|]/g, '')
+    .trim();
+}
+
+/**
+ * Озвучивает текст голосом voiceURI (или голосом по умолчанию).
+ * Резолвится, когда фраза дочитана или прервана stopSpeaking().
+ * Chrome иногда не присылает ни onend, ни onerror (особенно на длинных фразах), поэтому промис
+ * резолвится и когда синтезатор замолчал, и по таймауту от длины текста — иначе ждущий Auto Flow встал бы навсегда.
+ */
+export async function speak(text: string, voiceURI?: string): Promise<void> {
+  if (!isSpeechSynthesisAvailable()) return;
+  const spokenText = toSpeakableText(text);
+  const utterance = new SpeechSynthesisUtterance(spokenText);
+  if (voiceURI) {
+    const voice = (await loadVoices()).find(v => v.voiceURI === voiceURI);
+    if (voice) {
+      utterance.voice = voice;
+      utterance.lang = voice.lang;
+    }
+  }
+  return new Promise(resolve => {
+    const finish = () => {
+      clearInterval(poll);
+      clearTimeout(watchdog);
+      resolve();
+    };
+    const poll = setInterval(() => {
+      if (!speechSynthesis.speaking && !speechSynthesis.pending) finish();
+    }, SPEECH_POLL_MS);
+    const watchdog = setTimeout(() => {
+      speechSynthesis.cancel();
+      finish();
+    }, (spokenText.length / SPEECH_CHARS_PER_SECOND) * 2000 + SPEECH_WATCHDOG_GRACE_MS);
+    utterance.onend = finish;
+    utterance.onerror = finish;
+    speechSynthesis.speak(utterance);
+  });
+}
+
+export function stopSpeaking() {
+  if (isSpeechSynthesisAvailable()) speechSynthesis.cancel();
+}
@@ -0,0 +1,254 @@
+import { Chat, Message, UsageEntry } from '../types';
+
+const DB_NAME = 'smartchat';
+const DB_VERSION = 3;
+const LEGACY_CHATS_KEY = 'chat_app_chats';
+const LOCAL_USAGE_KEY = 'chat_app_usage';
+
+// Сообщения и аватары хранятся отдельно, в записи чата остаётся только порядок сообщений
+type StoredChat = Omit<Chat, 'messages' | 'avatar'> & { messageIds: string[] };
+type StoredMessage = Message & { chatId: string };
+type StoredAvatar = { chatId: string; data: string };
+
+// Вектор сообщения; у каждого провайдера эмбеддингов своё пространство, поэтому он часть ключа
+export interface EmbeddingRecord {
+  providerId: string;
+  chatId: string;
+  messageId: string;
+  textHash: string;
+  vector: number[];
+}
+
+/**
+ * Миграции схемы: элемент с индексом N переводит базу с версии N на N + 1.
+ * Новые хранилища и индексы добавляются только новой миграцией с увеличением DB_VERSION.
+ */
+const SCHEMA_MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  (db) => {
+    db.createObjectStore('chats', { keyPath: 'id' });
+    const messages = db.createObjectStore('messages', { keyPath: ['chatId', 'id'] });
+    messages.createIndex('chatId', 'chatId');
+    db.createObjectStore('avatars', { keyPath: 'chatId' });
+    db.createObjectStore('meta', { keyPath: 'key' });
+  },
+  (db) => {
+    const embeddings = db.createObjectStore('embeddings', { keyPath: ['providerId', 'chatId', 'messageId'] });
+    embeddings.createIndex('providerId', 'providerId');
+  },
+  (db) => {
+    db.createObjectStore('usage', { keyPath: 'id' });
+  }
+];
+
+const promisify = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Открывает базу. null — IndexedDB недоступна (приватный режим и т.п.), тогда работаем через localStorage.
+ */
+function getDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (event) => {
+        const tx = req.transaction!;
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          SCHEMA_MIGRATIONS[version](req.result, tx);
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        console.error("IndexedDB unavailable, falling back to localStorage:", req.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function readLegacyChats(): Chat[] | null {
+  const saved = localStorage.getItem(LEGACY_CHATS_KEY);
+  if (!saved) return null;
+  const parsed = JSON.parse(saved) as Chat[];
+  return Array.from(new Map(parsed.map(item => [item.id, item])).values());
+}
+
+const toStoredChat = ({ messages, avatar, ...rest }: Chat): StoredChat => ({ ...rest, messageIds: messages.map(m => m.id) });
+
+/**
+ * Записывает в базу только то, что изменилось между двумя снимками состояния.
+ * Сравнение идёт по ссылкам — иммутабельные обновления React делают его дешёвым.
+ */
+function writeChanges(db: IDBDatabase, prev: Chat[], next: Chat[]): Promise<void> {
+  const tx = db.transaction(['chats', 'messages', 'avatars'], 'readwrite');
+  const chatStore = tx.objectStore('chats');
+  const messageStore = tx.objectStore('messages');
+  const avatarStore = tx.objectStore('avatars');
+
+  const prevById = new Map(prev.map(c => [c.id, c]));
+  const nextById = new Map(next.map(c => [c.id, c]));
+
+  nextById.forEach((chat, id) => {
+    const old = prevById.get(id);
+    if (old === chat) return;
+
+    chatStore.put(toStoredChat(chat));
+
+    if (!old || old.avatar !== chat.avatar) {
+      if (chat.avatar) avatarStore.put({ chatId: id, data: chat.avatar } as StoredAvatar);
+      else if (old) avatarStore.delete(id);
+    }
+
+    if (!old || old.messages !== chat.messages) {
+      const oldMessages = new Map((old?.messages || []).map(m => [m.id, m]));
+      chat.messages.forEach(m => {
+        if (oldMessages.get(m.id) !== m) messageStore.put({ ...m, chatId: id } as StoredMessage);
+        oldMessages.delete(m.id);
+      });
+      oldMessages.forEach((_, messageId) => messageStore.delete([id, messageId]));
+    }
+  });
+
+  prevById.forEach((old, id) => {
+    if (nextById.has(id)) return;
+    chatStore.delete(id);
+    avatarStore.delete(id);
+    old.messages.forEach(m => messageStore.delete([id, m.id]));
+  });
+
+  return transactionDone(tx);
+}
+
+async function readAllChats(db: IDBDatabase): Promise<Chat[]> {
+  const tx = db.transaction(['chats', 'messages', 'avatars'], 'readonly');
+  const [storedChats, storedMessages, storedAvatars] = await Promise.all([
+    promisify(tx.objectStore('chats').getAll() as IDBRequest<StoredChat[]>),
+    promisify(tx.objectStore('messages').getAll() as IDBRequest<StoredMessage[]>),
+    promisify(tx.objectStore('avatars').getAll() as IDBRequest<StoredAvatar[]>)
+  ]);
+
+  const messagesByChat = new Map<string, Map<string, Message>>();
+  storedMessages.forEach(({ chatId, ...message }) => {
+    if (!messagesByChat.has(chatId)) messagesByChat.set(chatId, new Map());
+    messagesByChat.get(chatId)!.set(message.id, message);
+  });
+  const avatars = new Map(storedAvatars.map(a => [a.chatId, a.data]));
+
+  return storedChats.map(({ messageIds, ...chat }) => {
+    const byId = messagesByChat.get(chat.id);
+    return {
+      ...chat,
+      avatar: avatars.get(chat.id) || '',
+      messages: byId ? messageIds.map(id => byId.get(id)).filter((m): m is Message => !!m) : []
+    };
+  });
+}
+
+/**
+ * Загружает все чаты. null — первый запуск без сохранённых данных.
+ * При первом открытии базы переносит чаты из старого ключа localStorage.
+ */
+export async function loadChats(): Promise<Chat[] | null> {
+  const db = await getDatabase();
+  if (!db) return readLegacyChats();
+
+  const initialized = await promisify(db.transaction('meta', 'readonly').objectStore('meta').get('initialized'));
+  if (initialized) return readAllChats(db);
+
+  const legacy = readLegacyChats();
+  if (legacy) await writeChanges(db, [], legacy);
+
+  const metaTx = db.transaction('meta', 'readwrite');
+  metaTx.objectStore('meta').put({ key: 'initialized', value: Date.now() });
+  await transactionDone(metaTx);
+
+  // Перенос завершён — освобождаем квоту localStorage
+  if (legacy) localStorage.removeItem(LEGACY_CHATS_KEY);
+  return legacy;
+}
+
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Сохраняет разницу между предыдущим и новым состоянием чатов.
+ * Записи выполняются строго по очереди, чтобы транзакции не обгоняли друг друга.
+ * При ошибке промис отклоняется: next не сохранён, и следующую разницу нужно считать от того же prev.
+ */
+export function saveChatChanges(prev: Chat[], next: Chat[]): Promise<void> {
+  const run = writeQueue.then(async () => {
+    const db = await getDatabase();
+    if (!db) {
+      const uniqueChats = Array.from(new Map(next.map(item => [item.id, item])).values());
+      localStorage.setItem(LEGACY_CHATS_KEY, JSON.stringify(uniqueChats));
+      return;
+    }
+    await writeChanges(db, prev, next);
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Векторы одного провайдера эмбеддингов. Без IndexedDB индекс живёт только в памяти.
+ */
+export async function loadEmbeddings(providerId: string): Promise<EmbeddingRecord[]> {
+  const db = await getDatabase();
+  if (!db) return [];
+  const index = db.transaction('embeddings', 'readonly').objectStore('embeddings').index('providerId');
+  return promisify(index.getAll(providerId) as IDBRequest<EmbeddingRecord[]>);
+}
+
+export async function saveEmbeddings(records: EmbeddingRecord[], removed: [string, string, string][] = []): Promise<void> {
+  const db = await getDatabase();
+  if (!db || (records.length === 0 && removed.length === 0)) return;
+  const tx = db.transaction('embeddings', 'readwrite');
+  const store = tx.objectStore('embeddings');
+  records.forEach(r => store.put(r));
+  removed.forEach(key => store.delete(key));
+  await transactionDone(tx);
+}
+
+/**
+ * Журнал расходов. null — журнал ещё не заводили (его нужно заполнить из usage существующих сообщений).
+ */
+export async function loadUsageLedger(): Promise<UsageEntry[] | null> {
+  const db = await getDatabase();
+  if (!db) {
+    const saved = localStorage.getItem(LOCAL_USAGE_KEY);
+    return saved ? JSON.parse(saved) as UsageEntry[] : null;
+  }
+  const tx = db.transaction(['usage', 'meta'], 'readonly');
+  const [started, entries] = await Promise.all([
+    promisify(tx.objectStore('meta').get('usageLedger')),
+    promisify(tx.objectStore('usage').getAll() as IDBRequest<UsageEntry[]>)
+  ]);
+  return started ? entries : null;
+}
+
+/**
+ * Дописывает записи в журнал. Удаления нет: потраченное остаётся в бюджете, даже если сообщения стёрты.
+ */
+export async function appendUsageEntries(entries: UsageEntry[]): Promise<void> {
+  const db = await getDatabase();
+  if (!db) {
+    const saved = localStorage.getItem(LOCAL_USAGE_KEY);
+    localStorage.setItem(LOCAL_USAGE_KEY, JSON.stringify([...(saved ? JSON.parse(saved) as UsageEntry[] : []), ...entries]));
+    return;
+  }
+  const tx = db.transaction(['usage', 'meta'], 'readwrite');
+  const store = tx.objectStore('usage');
+  entries.forEach(e => store.put(e));
+  tx.objectStore('meta').put({ key: 'usageLedger', value: true });
+  await transactionDone(tx);
+}
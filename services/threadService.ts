@@ -0,0 +1,52 @@
+import { Chat, Message } from '../types';
+
+export interface ThreadNode {
+  chat: Chat;
+  children: ThreadNode[];
+}
+
+/**
+ * Корень дерева веток. Защита от циклов на случай битого импорта.
+ */
+export function getThreadRoot(chat: Chat, chats: Chat[]): Chat {
+  const seen = new Set<string>([chat.id]);
+  let current = chat;
+  while (current.parentId) {
+    const parent = chats.find(c => c.id === current.parentId);
+    if (!parent || seen.has(parent.id)) break;
+    seen.add(parent.id);
+    current = parent;
+  }
+  return current;
+}
+
+/**
+ * Дерево веток начиная с root. Архивные ветки не показываем, как и в списке чатов.
+ */
+export function buildThreadTree(root: Chat, chats: Chat[]): ThreadNode {
+  const seen = new Set<string>();
+  const build = (chat: Chat): ThreadNode => {
+    seen.add(chat.id);
+    const children = chats
+      .filter(c => c.parentId === chat.id && !seen.has(c.id) && !c.tags.includes('#archived'))
+      .sort((a, b) => (a.lastTimestamp || 0) - (b.lastTimestamp || 0));
+    return { chat, children: children.map(build) };
+  };
+  return build(root);
+}
+
+/**
+ * История родителей до сообщения, от которого ответвилась ветка (включительно).
+ * В саму ветку не копируется: уходит модели только для чтения перед сообщениями ветки.
+ * Если родитель тоже наследует контекст, цепочка собирается до корня.
+ */
+export function getInheritedContext(chat: Chat, chats: Chat[], seen = new Set<string>()): Message[] {
+  if (!chat.inheritContext || !chat.parentId || seen.has(chat.id)) return [];
+  const parent = chats.find(c => c.id === chat.parentId);
+  if (!parent) return [];
+  seen.add(chat.id);
+  // Корневое сообщение удалено из родителя — точки ветвления больше нет, наследовать нечего
+  const rootIdx = parent.messages.findIndex(m => m.id === chat.branchFromId);
+  if (rootIdx === -1) return [];
+  return [...getInheritedContext(parent, chats, seen), ...parent.messages.slice(0, rootIdx + 1)];
+}
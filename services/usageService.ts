@@ -0,0 +1,174 @@
+import { Chat, Message, MessageUsage, ModelPrice, ModelPriceOverrides, UsageEntry } from '../types';
+import { DEFAULT_MODEL_PRICES } from '../constants';
+import { appendUsageEntries, loadUsageLedger } from './storageService';
+
+export type UsageGrouping = 'provider' | 'model' | 'assistant' | 'day';
+
+/** Запись журнала со стоимостью по текущей таблице цен */
+export interface UsageRecord extends UsageEntry {
+  cost: number | null; // null — цена модели неизвестна
+}
+
+/** Для кого шёл запрос: по этим полям расход группируется в дашборде */
+export type UsageSource = Pick<UsageEntry, 'kind' | 'chatId' | 'assistantId' | 'assistantName'>;
+
+export interface UsageTotals {
+  key: string;
+  label: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  avgLatencyMs: number;
+}
+
+export const priceKey = (provider: string, modelName: string) => `${provider}/${modelName}`;
+
+export function getModelPrice(prices: ModelPriceOverrides, provider: string, modelName: string): ModelPrice | null {
+  const key = priceKey(provider, modelName);
+  const override = prices[key];
+  const fallback = DEFAULT_MODEL_PRICES[key];
+  if (!override && !fallback) return null;
+  return { input: override?.input ?? fallback?.input ?? 0, output: override?.output ?? fallback?.output ?? 0 };
+}
+
+export function usageCost(usage: MessageUsage, prices: ModelPriceOverrides): number | null {
+  const price = getModelPrice(prices, usage.provider, usage.modelName);
+  if (!price) return null;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Все оплаченные ответы сообщения: каждая регенерация (вариант) и каждый ответ сравнения
+ * стоили отдельный запрос, даже если сейчас не показаны.
+ */
+function billedVersions(msg: Message): (Message | Omit<Message, 'id'>)[] {
+  if (msg.comparison) {
+    return msg.comparison.map(e => ({ text: e.text, sender: 'ai' as const, authorId: e.authorId, authorName: e.authorName, timestamp: e.timestamp, usage: e.usage }));
+  }
+  return msg.variants && msg.variants.length > 0 ? msg.variants : [msg];
+}
+
+/**
+ * Расход, сохранённый в сообщениях. Нужен один раз — чтобы завести журнал с уже потраченным.
+ */
+function collectMessageUsage(chats: Chat[]): UsageEntry[] {
+  const entries: UsageEntry[] = [];
+  chats.forEach(chat => {
+    chat.messages.forEach(msg => {
+      billedVersions(msg).forEach((version, i) => {
+        if (!version.usage) return;
+        entries.push({
+          ...version.usage,
+          id: `usage-${chat.id}-${msg.id}-${i}`,
+          kind: msg.comparison ? 'comparison' : 'reply',
+          chatId: chat.id,
+          assistantId: version.authorId || chat.id,
+          assistantName: version.authorName || chat.name,
+          timestamp: version.timestamp
+        });
+      });
+    });
+  });
+  return entries;
+}
+
+// ---------- Журнал ----------
+
+let ledger: UsageEntry[] = [];
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/** Подписка для useSyncExternalStore */
+export function subscribeUsage(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export const getUsageLedger = (): UsageEntry[] => ledger;
+
+/**
+ * Загружает журнал; при первом запуске переносит в него usage существующих сообщений.
+ * Записи, сделанные до окончания загрузки, не теряются.
+ */
+export async function initUsageLedger(chats: Chat[]): Promise<void> {
+  let saved = await loadUsageLedger();
+  if (!saved) {
+    saved = collectMessageUsage(chats);
+    await appendUsageEntries(saved);
+  }
+  const savedIds = new Set(saved.map(e => e.id));
+  ledger = [...saved, ...ledger.filter(e => !savedIds.has(e.id))];
+  notify();
+}
+
+/**
+ * Дописывает оплаченный запрос в журнал. Вызывается для каждого обращения к платной модели,
+ * а не только для ответов, которые попали в чат.
+ */
+export function recordUsage(usage: MessageUsage, source: UsageSource): UsageEntry {
+  const entry: UsageEntry = { ...usage, ...source, id: `usage-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, timestamp: Date.now() };
+  ledger = [...ledger, entry];
+  notify();
+  appendUsageEntries([entry]).catch(e => console.error("Failed to persist usage:", e));
+  return entry;
+}
+
+export const withCosts = (entries: UsageEntry[], prices: ModelPriceOverrides): UsageRecord[] =>
+  entries.map(e => ({ ...e, cost: usageCost(e, prices) }));
+
+const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export function groupUsage(records: UsageRecord[], grouping: UsageGrouping): UsageTotals[] {
+  const groups = new Map<string, UsageTotals & { latencySum: number }>();
+  records.forEach(r => {
+    const key = grouping === 'provider' ? r.provider
+      : grouping === 'model' ? priceKey(r.provider, r.modelName)
+      : grouping === 'assistant' ? r.assistantId
+      : dayKey(r.timestamp);
+    const group = groups.get(key) || {
+      key,
+      label: grouping === 'assistant' ? r.assistantName : key,
+      requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, avgLatencyMs: 0, latencySum: 0
+    };
+    group.requests++;
+    group.promptTokens += r.promptTokens;
+    group.completionTokens += r.completionTokens;
+    group.cost += r.cost || 0;
+    group.latencySum += r.latencyMs;
+    groups.set(key, group);
+  });
+
+  const totals = Array.from(groups.values()).map(({ latencySum, ...g }) => ({ ...g, avgLatencyMs: Math.round(latencySum / g.requests) }));
+  return grouping === 'day'
+    ? totals.sort((a, b) => b.key.localeCompare(a.key))
+    : totals.sort((a, b) => b.cost - a.cost || (b.promptTokens + b.completionTokens) - (a.promptTokens + a.completionTokens));
+}
+
+/** Расходы с начала календарного месяца, в котором находится now */
+export function monthSpend(records: UsageRecord[], now: number = Date.now()): number {
+  const d = new Date(now);
+  const monthStart = new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+  return records.filter(r => r.timestamp >= monthStart).reduce((sum, r) => sum + (r.cost || 0), 0);
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0';
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Текст предупреждения, если очередной расход пересёк 80% или 100% месячного бюджета.
+ */
+export function budgetWarning(spentBefore: number, spentAfter: number, budget?: number): string | null {
+  if (!budget || budget <= 0) return null;
+  const crossed = (share: number) => spentBefore < budget * share && spentAfter >= budget * share;
+  if (crossed(1)) return `⚠️ Monthly budget exceeded: ${formatCost(spentAfter)} of ${formatCost(budget)} spent.`;
+  if (crossed(0.8)) return `⚠️ 80% of the monthly budget used: ${formatCost(spentAfter)} of ${formatCost(budget)}.`;
+  return null;
+}
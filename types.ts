@@ -1,7 +1,11 @@
 
-export type ModelProvider = 'openai' | 'deepseek' | 'gemini';
+// id адаптера из реестра services/providers
+export type ModelProvider = string;
 export type AppTheme = 'light' | 'dark' | 'system';
 
+// Класс ошибки провайдера: по нему UI выбирает иконку, подсказку и решает, предлагать ли повтор
+export type AIErrorKind = 'auth' | 'rate_limit' | 'quota' | 'context_overflow' | 'network' | 'server' | 'content_filter' | 'unknown';
+
 export interface Message {
   id: string;
   text: string;
@@ -9,9 +13,90 @@ export interface Message {
   authorId?: string; 
   authorName?: string; 
   timestamp: number;
+  attachments?: Attachment[];
+  forwardedFrom?: ForwardedFrom; // пересланное из другого чата; отправитель — пользователь
+  mergedFrom?: { chatId: string; chatName: string }; // итог ветки, возвращённый в родительский чат
+  isError?: boolean;
+  errorKind?: AIErrorKind;
+  isInterrupted?: boolean;
+  editedAt?: number;
+  // Альтернативные ответы (регенерации). Поля активного варианта продублированы в самом сообщении
+  variants?: MessageVariant[];
+  activeVariant?: number;
+  // Режим сравнения: ответы нескольких ассистентов на одно сообщение, пока не выбран победитель
+  comparison?: ComparisonEntry[];
+  usage?: MessageUsage; // в том числе какая модель фактически ответила
+  isFallback?: boolean; // ответила запасная модель из Chat.fallbacks
+}
+
+export interface ForwardedFrom {
+  chatId: string;
+  chatName: string;
+  authorName: string; // автор исходного сообщения
+}
+
+// Сообщения, выбранные для пересылки, пока пользователь не отправил их в целевом чате
+export interface PendingForward {
+  messages: Message[];
+  fromChatId: string;
+  fromName: string;
+  targetChatId: string;
+}
+
+// Вложение сообщения. Картинки и PDF хранятся data URL (base64), текстовые файлы — содержимым
+export interface Attachment {
+  id: string;
+  kind: 'image' | 'pdf' | 'text';
+  name: string;
+  mimeType: string;
+  size: number; // байт исходного файла
+  data: string;
+}
+
+// Расход на один ответ модели. Стоимость не хранится — считается по текущей таблице цен
+export interface MessageUsage {
+  provider: ModelProvider;
+  modelName: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  estimated?: boolean; // провайдер не вернул usage, токены посчитаны оценочно
+}
+
+export type UsageKind = 'reply' | 'comparison' | 'summary' | 'moderator' | 'prompt' | 'embedding';
+
+// Запись журнала расходов. Журнал только дописывается: удалённые сообщения не стирают потраченное
+export interface UsageEntry extends MessageUsage {
+  id: string;
+  kind: UsageKind;
+  chatId?: string; // чат, ради которого шёл запрос; пусто, если чата ещё нет
+  assistantId: string;
+  assistantName: string; // на момент запроса — ассистент мог быть удалён
+  timestamp: number;
+}
+
+// Цена за 1M токенов в USD
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Цены пользователя поверх DEFAULT_MODEL_PRICES; незаданное поле берётся из встроенной цены
+export type ModelPriceOverrides = Record<string, Partial<ModelPrice>>;
+
+export interface ComparisonEntry {
+  authorId: string;
+  authorName: string;
+  text: string;
+  latencyMs: number;
+  timestamp: number;
   isError?: boolean;
+  errorKind?: AIErrorKind;
+  usage?: MessageUsage;
 }
 
+export type MessageVariant = Omit<Message, 'id' | 'variants' | 'activeVariant'>;
+
 export interface TagFolder {
   id: string;
   name: string;
@@ -34,19 +119,65 @@ export interface Chat {
   messages: Message[];
   tags: string[];
   parentId?: string;
+  branchFromId?: string; // сообщение родителя, от которого ответвилась ветка
+  inheritContext?: boolean; // передавать модели историю родителя до branchFromId
   draft?: string;
   isGroup?: boolean;
   participantIds?: string[]; 
+  memoryMode?: boolean; // сворачивать выпавшие из контекста сообщения в summary
+  summary?: string;
+  summarizedUntilId?: string; // последнее сообщение, вошедшее в summary
+  // Очерёдность выступлений в Арене (Auto Flow)
+  turnStrategy?: TurnStrategy;
+  moderatorId?: string;
+  turnWeights?: Record<string, number>; // id участника -> вес, по умолчанию 1
+  runSettings?: ArenaRunSettings;
+  participantRoles?: Record<string, string>; // id участника -> роль/приватные инструкции в этой Арене
+  fallbacks?: ModelRoute[]; // запасные модели по порядку, если основная недоступна
+  voice?: string; // voiceURI голоса для озвучки ответов этого ассистента
+  speakReplies?: boolean; // озвучивать новые ответы в этом чате
+}
+
+export interface ModelRoute {
+  provider: ModelProvider;
+  modelName: string;
+}
+
+// Ограничения одного запуска Auto Flow; пустое поле — без ограничения
+export interface ArenaRunSettings {
+  maxTurns?: number;
+  maxTokens?: number; // промпт + ответ всех ходов и вызовов модератора
+  maxSpend?: number; // USD
+  maxMinutes?: number;
+  turnDelayMs?: number;
+  stopPhrase?: string;
+}
+
+export type TurnStrategy = 'round-robin' | 'random' | 'most-mentioned' | 'moderator' | 'weighted';
+
+// Пользовательский OpenAI-совместимый сервер (Ollama, LM Studio, vLLM, OpenRouter...)
+export interface CustomEndpoint {
+  id: string; // используется как provider id
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  models: string[];
+  contextWindow?: number; // токены; по умолчанию консервативные 8k
 }
 
 export interface AppSettings {
-  openaiKey: string;
-  deepseekKey: string;
+  apiKeys: Record<string, string>; // provider id -> key
+  customEndpoints: CustomEndpoint[];
   defaultProvider: ModelProvider;
   activeTab: 'chats' | 'settings' | 'import';
   theme: AppTheme;
   customFolders: TagFolder[];
   globalSystemPrompt: string; // New field for user-visible instructions
+  modelPrices: ModelPriceOverrides; // `${provider}/${model}` -> цена
+  monthlyBudget?: number; // USD, предупреждения при 80% и 100%
+  transcriber?: string; // движок диктовки (speechService), по умолчанию первый доступный
+  semanticSearch?: boolean; // строить индекс эмбеддингов для поиска по смыслу
+  embeddingProvider?: string; // провайдер эмбеддингов (embeddingService), по умолчанию локальный
 }
 
 export interface ImportCandidate {